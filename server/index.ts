@@ -0,0 +1,8 @@
+import { startVersusServer } from "./versus-server";
+import { DEFAULT_SERVER_PORT } from "@/lib/game/online";
+
+const port = Number(process.env.PORT) || DEFAULT_SERVER_PORT;
+
+startVersusServer({ port }).then(server => {
+  console.log(`Versus server listening on ws://localhost:${server.port}`);
+});
@@ -0,0 +1,208 @@
+// Reference server for online versus. It pairs players in the order they
+// join, relays attacks and scores between them and decides the winner; each
+// field runs in its player's browser. Everything lives in memory, so it is
+// meant for local play and tests: `npm run server`.
+
+import { randomUUID } from "node:crypto";
+import { WebSocketServer, WebSocket } from "ws";
+import { randomSeed } from "@/lib/game/random";
+import {
+  parseClientMessage, DEFAULT_SERVER_PORT, MAX_ATTACK_STEP, RECONNECT_GRACE, ClientMessage, OnlineField, ServerMessage,
+} from "@/lib/game/online";
+
+interface Player {
+  token: string;
+  name: string;
+  field: OnlineField;
+  /** Null while the player is disconnected. */
+  socket: WebSocket | null;
+  match: Match | null;
+  score: number;
+  lives: number;
+  sent: number;
+  /** Sent again if the player comes back after the match ended. */
+  result: ServerMessage | null;
+  /** Runs out the clock on a dropped connection. */
+  dropTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface Match {
+  players: [Player, Player];
+  over: boolean;
+}
+
+export interface VersusServerOptions {
+  /** 0 picks a free port. */
+  port?: number;
+  /** How long a dropped player has to come back before forfeiting. */
+  grace?: number;
+}
+
+export interface VersusServer {
+  port: number;
+  close: () => Promise<void>;
+}
+
+const reply = (socket: WebSocket, message: ServerMessage) => socket.send(JSON.stringify(message));
+
+const send = (player: Player, message: ServerMessage) => {
+  if (player.socket?.readyState === WebSocket.OPEN) player.socket.send(JSON.stringify(message));
+};
+
+const opponentOf = (player: Player) => player.match.players.find(p => p !== player);
+
+const side = (player: Player) => ({ name: player.name, score: player.score, sent: player.sent });
+
+export function startVersusServer({ port = DEFAULT_SERVER_PORT, grace = RECONNECT_GRACE }: VersusServerOptions = {}) {
+  const wss = new WebSocketServer({ port });
+  const players = new Map<string, Player>();
+  let waiting: Player | null = null;
+
+  const forget = (player: Player) => {
+    if (player.dropTimer) clearTimeout(player.dropTimer);
+    players.delete(player.token);
+  };
+
+  const finish = (match: Match, loser: Player, forfeit: boolean) => {
+    match.over = true;
+    match.players.forEach(player => {
+      const opponent = opponentOf(player);
+      player.result = { type: "result", sides: [side(player), side(opponent)], won: player !== loser, forfeit };
+      send(player, player.result);
+      if (player.dropTimer) clearTimeout(player.dropTimer);
+      // A player who is away gets a while to come back and see the result
+      if (player.socket) forget(player);
+      else player.dropTimer = setTimeout(() => forget(player), grace);
+    });
+  };
+
+  const pair = (first: Player, second: Player) => {
+    const match: Match = { players: [first, second], over: false };
+    const seed = randomSeed();
+    first.match = match;
+    second.match = match;
+    match.players.forEach(player => send(player, {
+      type: "matched", opponent: opponentOf(player).name, seed, field: first.field,
+    }));
+  };
+
+  const join = (socket: WebSocket, message: Extract<ClientMessage, { type: "join" }>) => {
+    const player: Player = {
+      token: randomUUID(),
+      name: message.name,
+      field: message.field,
+      socket,
+      match: null,
+      score: 0,
+      lives: 0,
+      sent: 0,
+      result: null,
+      dropTimer: null,
+    };
+    players.set(player.token, player);
+    send(player, { type: "queued", token: player.token });
+    if (waiting) {
+      pair(waiting, player);
+      waiting = null;
+    } else {
+      waiting = player;
+    }
+    return player;
+  };
+
+  const resume = (socket: WebSocket, token: string) => {
+    const player = players.get(token);
+    if (!player?.match) {
+      reply(socket, { type: "error", message: "That match is no longer running." });
+      return null;
+    }
+    if (player.dropTimer) clearTimeout(player.dropTimer);
+    player.dropTimer = null;
+    if (player.socket && player.socket !== socket) player.socket.close();
+    player.socket = socket;
+    send(player, { type: "resumed" });
+    if (player.result) {
+      send(player, player.result);
+      forget(player);
+      return player;
+    }
+    const opponent = opponentOf(player);
+    send(player, { type: "incoming", total: opponent.sent });
+    send(player, { type: "opponent", score: opponent.score, lives: opponent.lives });
+    if (!opponent.socket) send(player, { type: "opponentAway", grace });
+    send(opponent, { type: "opponentBack" });
+    return player;
+  };
+
+  const leave = (player: Player) => {
+    if (waiting === player) waiting = null;
+    if (player.match && !player.match.over) finish(player.match, player, true);
+    forget(player);
+  };
+
+  const drop = (player: Player) => {
+    player.socket = null;
+    if (!player.match || player.match.over) {
+      leave(player);
+      return;
+    }
+    const match = player.match;
+    send(opponentOf(player), { type: "opponentAway", grace });
+    player.dropTimer = setTimeout(() => finish(match, player, true), grace);
+  };
+
+  wss.on("connection", socket => {
+    let player: Player | null = null;
+
+    socket.on("message", data => {
+      const message = parseClientMessage(data.toString());
+      if (!message) {
+        reply(socket, { type: "error", message: "That message wasn't understood." });
+        return;
+      }
+      if (message.type === "ping") {
+        reply(socket, { type: "pong", at: message.at });
+      } else if (message.type === "join") {
+        if (player) leave(player);
+        player = join(socket, message);
+      } else if (message.type === "resume") {
+        player = resume(socket, message.token);
+      } else if (message.type === "leave") {
+        if (player) leave(player);
+        player = null;
+      } else if (player?.match && !player.match.over) {
+        const opponent = opponentOf(player);
+        if (message.type === "attack" && message.total > player.sent) {
+          // A huge jump would flood the opponent's field all at once
+          player.sent = Math.min(message.total, player.sent + MAX_ATTACK_STEP);
+          send(opponent, { type: "incoming", total: player.sent });
+        } else if (message.type === "state") {
+          player.score = message.score;
+          player.lives = message.lives;
+          send(opponent, { type: "opponent", score: player.score, lives: player.lives });
+        } else if (message.type === "lost") {
+          player.score = message.score;
+          player.lives = 0;
+          finish(player.match, player, false);
+        }
+      }
+    });
+
+    socket.on("close", () => {
+      // A player who has reconnected on another socket is no longer this one's
+      if (player && player.socket === socket) drop(player);
+    });
+  });
+
+  return new Promise<VersusServer>((resolve, reject) => {
+    wss.once("error", reject);
+    wss.once("listening", () => resolve({
+      port: (wss.address() as { port: number }).port,
+      close: () => new Promise<void>(done => {
+        players.forEach(forget);
+        wss.clients.forEach(client => client.terminate());
+        wss.close(() => done());
+      }),
+    }));
+  });
+}
@@ -0,0 +1,37 @@
+import { CHALLENGE_RANGE, TARGET_BAND, lifetimeScale, spawnScale, AdaptiveState } from "@/lib/game/adaptive";
+
+interface AdaptiveDebugProps {
+  adaptive: AdaptiveState;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/** Readout of the adaptive difficulty internals, shown with ?debug in the URL. */
+const AdaptiveDebug = ({ adaptive }: AdaptiveDebugProps) => {
+  const inBand = adaptive.pressure >= TARGET_BAND[0] && adaptive.pressure <= TARGET_BAND[1];
+  const rows: [string, string][] = [
+    ["Challenge", `${adaptive.challenge.toFixed(2)} (${CHALLENGE_RANGE.join("–")})`],
+    ["Pressure", `${percent(adaptive.pressure)} · target ${TARGET_BAND.map(percent).join("–")}`],
+    ["Reaction", `${percent(adaptive.reaction)} of lifetime`],
+    ["Miss rate", percent(adaptive.missRate)],
+    ["Recent lives lost", adaptive.lifeLoss.toFixed(1)],
+    ["Spawn interval", `×${spawnScale(adaptive).toFixed(2)}`],
+    ["Worm lifetime", `×${lifetimeScale(adaptive).toFixed(2)}`],
+  ];
+
+  return (
+    <div className="mt-4 px-3 py-2 rounded-xl bg-card border border-dashed border-border font-mono text-[11px] text-muted-foreground">
+      <p className={`font-bold mb-1 ${inBand ? "text-grass" : "text-accent"}`}>
+        🧠 Adaptive difficulty {inBand ? "· in band" : adaptive.pressure < TARGET_BAND[0] ? "· too easy" : "· too hard"}
+      </p>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-4">
+          <span>{label}</span>
+          <span className="text-foreground">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AdaptiveDebug;
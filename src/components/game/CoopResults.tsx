@@ -0,0 +1,40 @@
+import { COOP_SEATS, contributions, PlayerStats } from "@/lib/game/coop";
+
+interface CoopResultsProps {
+  players: PlayerStats[];
+}
+
+/** What each co-op player brought to the run. */
+const CoopResults = ({ players }: CoopResultsProps) => {
+  const shares = contributions(players);
+
+  return (
+    <div className="grid grid-cols-2 gap-3 w-full max-w-md">
+      {players.map((player, i) => {
+        const seat = COOP_SEATS[i];
+        // Only an outright majority earns the crown
+        const mvp = shares[i] > 50;
+        return (
+          <div
+            key={seat.name}
+            className={`bg-card rounded-2xl p-4 shadow-lg text-center border-2 ${mvp ? "border-secondary" : "border-border"}`}
+          >
+            <p className={`font-display font-bold mb-1 ${seat.text}`}>
+              {mvp ? "👑 " : ""}{seat.emoji} {seat.name}
+            </p>
+            <p className="font-display text-3xl font-bold text-secondary">{shares[i]}%</p>
+            <p className="text-muted-foreground font-body text-xs">of the points</p>
+            <div className="mt-2 h-2 rounded-full bg-muted overflow-hidden" aria-hidden>
+              <div className={`h-full ${seat.bg}`} style={{ width: `${shares[i]}%` }} />
+            </div>
+            <p className="text-muted-foreground font-body text-xs mt-2">
+              🐛 {player.squashed} squashed · ⭐ {player.points} · ✨ {player.powerUps} grabbed
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CoopResults;
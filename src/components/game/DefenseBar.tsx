@@ -0,0 +1,33 @@
+import { EngineState } from "@/lib/game/engine";
+import { DEFENSES, DEFENSE_TYPES, DefenseType } from "@/lib/game/defenses";
+
+interface DefenseBarProps {
+  game: EngineState;
+  selected: DefenseType | null;
+  onSelect: (type: DefenseType | null) => void;
+}
+
+/** Picks a defense to place; the next corn cell tapped gets it. */
+const DefenseBar = ({ game, selected, onSelect }: DefenseBarProps) => (
+  <div className="flex flex-wrap gap-2 justify-center mt-3" role="radiogroup" aria-label="Defenses">
+    {DEFENSE_TYPES.map(type => {
+      const info = DEFENSES[type];
+      const active = selected === type;
+      return (
+        <button
+          key={type}
+          role="radio"
+          aria-checked={active}
+          disabled={game.score < info.cost}
+          onClick={() => onSelect(active ? null : type)}
+          title={`${info.label} - ${info.description}`}
+          className={`px-3 py-1 rounded-lg font-display text-xs font-bold border-2 disabled:opacity-40 ${active ? "border-primary bg-primary/10" : "border-border bg-card"}`}
+        >
+          {info.emoji} {info.label} · {info.cost}
+        </button>
+      );
+    })}
+  </div>
+);
+
+export default DefenseBar;
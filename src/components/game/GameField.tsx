@@ -0,0 +1,470 @@
+import { useEffect, useState, type CSSProperties, type PointerEvent } from "react";
+import { cellKey, currentWave, isNight, isDamageBlocked, EngineState, GameAction, Worm } from "@/lib/game/engine";
+import { getCell, getLayoutSize } from "@/lib/game/layouts";
+import { describeObjective, objectiveProgress } from "@/lib/game/objectives";
+import { ENEMY_STATS, EnemyType } from "@/lib/game/enemies";
+import { BOSS_TELEGRAPH, bossAttackCells, bossCells, Boss } from "@/lib/game/boss";
+import { WAVE_BANNER_MS } from "@/lib/game/waves";
+import { GrowthStage } from "@/lib/game/crops";
+import { POWERUPS } from "@/lib/game/powerups";
+import { DEFENSES, DefenseType } from "@/lib/game/defenses";
+import { WEATHER } from "@/lib/game/weather";
+import { NIGHT_SCORE_MULTIPLIER, untilDaybreakOrDusk } from "@/lib/game/daynight";
+import { COOP_SEATS } from "@/lib/game/coop";
+import { actionBy, SOLO_CONTROLS, Controls } from "@/lib/controls";
+import { useKeyboardCursor } from "@/hooks/use-keyboard-cursor";
+import AdaptiveDebug from "@/components/game/AdaptiveDebug";
+import PowerUpInventory from "@/components/game/PowerUpInventory";
+import DefenseBar from "@/components/game/DefenseBar";
+import NightOverlay from "@/components/game/NightOverlay";
+
+interface GameFieldProps {
+  game: EngineState;
+  /** Omit to render the field read-only, e.g. for replays. */
+  onAction?: (action: GameAction) => void;
+  flashClear?: boolean;
+  /** Shows engine internals such as the adaptive difficulty rating. */
+  debug?: boolean;
+  controls?: Controls;
+  /** A second player sharing the field in co-op; the first is `controls`. */
+  partner?: Controls;
+}
+
+const ENEMY_INFO: Record<EnemyType, { emoji: string; label: string; className?: string }> = {
+  worm: { emoji: "🐛", label: "worm" },
+  fast: { emoji: "🪱", label: "fast worm", className: "animate-pulse" },
+  golden: { emoji: "🐛", label: "golden worm", className: "drop-shadow-[0_0_10px_hsl(var(--corn-gold))] sepia saturate-200" },
+  beetle: { emoji: "🪲", label: "armored beetle" },
+  splitter: { emoji: "🐍", label: "splitting worm" },
+  hatchling: { emoji: "🐛", label: "small worm", className: "scale-75" },
+  burrower: { emoji: "🦗", label: "burrower" },
+};
+
+const STAGE_EMOJI: Record<GrowthStage, string> = {
+  seedling: "🌱",
+  stalk: "🌿",
+  ripe: "🌽",
+};
+
+const ARROWS: Record<string, string> = { "-1,0": "⬆", "1,0": "⬇", "0,-1": "⬅", "0,1": "➡" };
+
+// Slide in from the cell the worm crawled or hopped out of
+const crawlStyle = (w: Worm) => ({
+  "--crawl-x": `${(w.from[1] - w.col) * 100}%`,
+  "--crawl-y": `${(w.from[0] - w.row) * 100}%`,
+}) as CSSProperties;
+
+// Cells are placed explicitly so the boss can be laid over several of them
+const gridPlace = (row: number, col: number, span = 1): CSSProperties => ({
+  gridRow: row + 1,
+  gridColumn: `${col + 1} / span ${span}`,
+});
+
+const bossSegments = (boss: Boss) =>
+  Array.from({ length: boss.width }, (_, i) => (i === boss.width - 1 ? "🐛" : "🟢"));
+
+const nextStepArrow = (w: Worm) => {
+  if (w.path.length === 0) return null;
+  const [r, c] = w.path[0];
+  return ARROWS[`${r - w.row},${c - w.col}`];
+};
+
+const GameField = ({ game, onAction, flashClear = false, debug = false, controls = SOLO_CONTROLS, partner }: GameFieldProps) => {
+  const readOnly = !onAction;
+  // In co-op each player works one input, and what they do is credited to them
+  const seats = partner ? [controls, partner] : [controls];
+  const pointerSeat = seats.findIndex(seat => seat.pointer);
+  const cursorSeat = seats.findIndex(seat => seat.cursor);
+  const tap = (action: GameAction) => onAction(actionBy(action, pointerSeat, !!partner));
+  const press = (action: GameAction) => onAction(actionBy(action, cursorSeat, !!partner));
+  // Boards driven only by the keyboard ignore taps, so the other player can't reach over
+  const tappable = !readOnly && pointerSeat >= 0;
+  // The defense waiting to be placed on the next corn cell tapped
+  const [placing, setPlacing] = useState<DefenseType | null>(null);
+
+  useEffect(() => {
+    if (!placing) return;
+    // Caught on the way down, so cancelling a placement doesn't also pause the game
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return;
+      e.stopPropagation();
+      setPlacing(null);
+    };
+    window.addEventListener("keydown", onKeyDown, true);
+    return () => window.removeEventListener("keydown", onKeyDown, true);
+  }, [placing]);
+
+  const { layout, objective, cornMaxHealth } = game.config;
+  const { rows, cols } = getLayoutSize(layout);
+
+  const pickupAt = (row: number, col: number) =>
+    game.powerUps.find(p => p.owner === null && p.cell?.[0] === row && p.cell[1] === col);
+
+  // The keyboard cursor does whatever a tap on its cell would
+  const selectCell = (row: number, col: number) => {
+    const key = cellKey(row, col);
+    const worm = game.worms.find(w => w.row === row && w.col === col);
+    const pickup = pickupAt(row, col);
+    if (placing) {
+      press({ type: "placeDefense", defense: placing, row, col });
+      setPlacing(null);
+    } else if (pickup) {
+      press({ type: "claimPowerUp", powerUpId: pickup.id });
+    } else if (worm) {
+      press({ type: "squash", wormId: worm.id });
+    } else if (game.boss && bossCells(game.boss).some(([r, c]) => r === row && c === col)) {
+      press({ type: "hitBoss" });
+    } else if (game.crops[key]?.stage === "ripe") {
+      press({ type: "harvest", row, col });
+    } else if (game.weather?.current === "drought") {
+      press({ type: "water", row, col });
+    }
+  };
+  const [cursor, setCursor] = useKeyboardCursor(rows, cols, readOnly ? null : seats[cursorSeat]?.cursor ?? null, selectCell);
+
+  // The lantern follows whichever was used last, the pointer or the cursor
+  const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null);
+  const trackPointer = (e: PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setPointer({ x: ((e.clientX - rect.left) / rect.width) * 100, y: ((e.clientY - rect.top) / rect.height) * 100 });
+    // A co-op partner's cursor stays put
+    if (!partner) setCursor(null);
+  };
+  const lantern = cursor ? { x: ((cursor[1] + 0.5) / cols) * 100, y: ((cursor[0] + 0.5) / rows) * 100 } : pointer;
+  const night = isNight(game);
+  const { boss } = game;
+  const telegraphed = boss && game.time >= boss.nextAttackAt - BOSS_TELEGRAPH
+    ? new Set(bossAttackCells(boss, layout).map(([r, c]) => cellKey(r, c)))
+    : new Set<string>();
+  const wave = currentWave(game);
+  const { weather } = game;
+  const drought = weather?.current === "drought";
+  const showWaveBanner = game.resting || game.time - game.waveStartedAt < WAVE_BANNER_MS;
+
+  return (
+    <div className="relative">
+      {/* Shield overlay */}
+      {isDamageBlocked(game) && (
+        <div className="absolute -inset-2 rounded-2xl border-4 border-sky/60 bg-sky/10 z-20 pointer-events-none bounce-in">
+          <div className="absolute top-1 right-2 text-xs font-display font-bold text-sky">
+            🛡️ SHIELD
+          </div>
+        </div>
+      )}
+
+      {/* Running power-ups */}
+      {game.effects.length > 0 && (
+        <div className="absolute -top-8 left-0 z-30 flex gap-1 pointer-events-none">
+          {game.effects.map((effect, i) => (
+            <span
+              key={`${effect.type}-${i}`}
+              className="px-2 py-0.5 rounded-full bg-card border border-border font-display text-xs font-bold bounce-in"
+              title={POWERUPS[effect.type].label}
+            >
+              {POWERUPS[effect.type].emoji} {Math.ceil((effect.until - game.time) / 1000)}s
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Weather forecast and time of day */}
+      <div className="absolute -top-8 right-0 z-30 flex gap-1 pointer-events-none">
+        {game.config.dayNight && (
+          <span
+            className="px-2 py-0.5 rounded-full bg-card border border-border font-display text-xs font-bold"
+            title={night ? `Night - points ×${NIGHT_SCORE_MULTIPLIER}` : "Day"}
+          >
+            {night ? `🌙 ×${NIGHT_SCORE_MULTIPLIER}` : "🌞"} {Math.ceil(untilDaybreakOrDusk(game.time) / 1000)}s
+          </span>
+        )}
+        {weather && (
+          <span
+            className="px-2 py-0.5 rounded-full bg-card border border-border font-display text-xs font-bold"
+            title={`${WEATHER[weather.current].label} - ${WEATHER[weather.current].description}`}
+          >
+            {WEATHER[weather.current].emoji} → {WEATHER[weather.next].emoji} in {Math.ceil((weather.endsAt - game.time) / 1000)}s
+          </span>
+        )}
+      </div>
+
+      {/* Weather overlays */}
+      {weather?.current === "rain" && (
+        <div className="absolute inset-0 rounded-xl rain-fall z-20 pointer-events-none" aria-hidden />
+      )}
+      {weather?.current === "wind" && (
+        <div className="absolute inset-0 rounded-xl wind-gust z-20 pointer-events-none" aria-hidden />
+      )}
+      {drought && (
+        <div className="absolute -inset-2 rounded-2xl bg-corn-gold/15 z-0 pointer-events-none" aria-hidden />
+      )}
+
+      {/* Flash clear effect */}
+      {flashClear && (
+        <div className="absolute inset-0 bg-corn-light/40 rounded-xl z-30 pointer-events-none bounce-in" />
+      )}
+
+      {/* Objective */}
+      {objective && (
+        <div className="flex justify-between items-center mb-3 px-3 py-1.5 rounded-xl bg-card border border-border font-body text-xs">
+          <span className="text-muted-foreground">🎯 {describeObjective(objective)}</span>
+          <span className="font-display font-bold text-foreground">{objectiveProgress(objective, game)}</span>
+        </div>
+      )}
+
+      {/* Wave announcement */}
+      {showWaveBanner && (
+        <div
+          key={`${game.wave}-${game.resting}`}
+          className="absolute top-1/3 inset-x-0 z-30 flex flex-col items-center pointer-events-none bounce-in"
+        >
+          <div className="px-5 py-2 rounded-2xl bg-card/90 border-2 border-primary shadow-lg text-center">
+            <p className="font-display text-2xl font-bold text-primary">🌊 Wave {game.wave}</p>
+            {wave.name && <p className="font-body text-sm text-foreground">{wave.name}</p>}
+            {game.resting && (
+              <p className="font-body text-xs text-muted-foreground">Starts in {Math.ceil(game.spawnTimer / 1000)}s</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Combo indicator */}
+      {game.combo > 1 && (
+        <div className="absolute -top-8 left-1/2 -translate-x-1/2 font-display text-accent font-bold text-lg bounce-in z-30">
+          {game.combo}x Combo! 🔥
+        </div>
+      )}
+
+      <div
+        className="relative grid gap-2 sm:gap-3"
+        style={{ gridTemplateColumns: `repeat(${cols}, 1fr)` }}
+        onPointerMove={tappable ? trackPointer : undefined}
+        onPointerLeave={() => setPointer(null)}
+      >
+        {Array.from({ length: rows * cols }).map((_, idx) => {
+          const row = Math.floor(idx / cols);
+          const col = idx % cols;
+          const key = cellKey(row, col);
+          const health = game.cornHealth[key] ?? 0;
+          const cellWorms = game.worms.filter(w => w.row === row && w.col === col);
+          const onPath = game.worms.some(w => w.path.some(([r, c]) => r === row && c === col));
+          const stage = game.crops[key]?.stage;
+          const harvestable = stage === "ripe" && health > 0 && cellWorms.length === 0;
+          const guard = game.effects.find(e => e.cell?.[0] === row && e.cell[1] === col);
+          const defense = game.defenses[key];
+          const fogged = weather?.current === "fog" && weather.fogged.includes(key);
+          const thirsty = drought && health > 0 && !(game.watered[key] > game.time);
+          const pickup = pickupAt(row, col);
+
+          const { kind } = getCell(layout, row, col);
+          if (kind === "empty") {
+            return <div key={key} className="aspect-square" style={{ minWidth: 56, ...gridPlace(row, col) }} aria-hidden />;
+          }
+          if (kind === "rock") {
+            return (
+              <div
+                key={key}
+                className="aspect-square rounded-xl bg-muted border-2 border-border flex items-center justify-center"
+                style={{ minWidth: 56, ...gridPlace(row, col) }}
+              >
+                <span className="text-3xl sm:text-4xl select-none">🪨</span>
+              </div>
+            );
+          }
+
+          return (
+            <div
+              key={key}
+              className={`relative aspect-square rounded-xl bg-grass-light/30 border-2 border-grass/30 flex items-center justify-center overflow-hidden transition-colors ${harvestable ? "border-corn-gold bg-corn-light/30" : ""} ${onPath ? "outline-dashed outline-2 outline-accent/60" : ""} ${telegraphed.has(key) ? "ring-4 ring-destructive/70 animate-pulse" : ""}`}
+              style={{ minWidth: 56, ...gridPlace(row, col) }}
+            >
+              {harvestable ? (
+                <button
+                  disabled={!tappable}
+                  onClick={() => tap({ type: "harvest", row, col })}
+                  className="absolute inset-0 flex items-center justify-center cursor-pointer disabled:cursor-default hover:scale-110 transition-transform"
+                  aria-label="Harvest the ripe corn"
+                >
+                  <span className="text-3xl sm:text-4xl select-none drop-shadow-[0_0_8px_hsl(var(--corn-gold))]">🌽</span>
+                </button>
+              ) : (
+                <span className={`text-3xl sm:text-4xl select-none ${health > 0 ? "munch" : ""}`} style={health === 0 ? { filter: "grayscale(1)" } : {}}>
+                  {health > 0 ? STAGE_EMOJI[stage] : "💀"}
+                </span>
+              )}
+
+              {/* Health pips */}
+              {health > 0 && (
+                <span className="absolute top-1 left-1 flex gap-0.5" aria-hidden>
+                  {Array.from({ length: cornMaxHealth }, (_, i) => (
+                    <span key={i} className={`w-1.5 h-1.5 rounded-full ${i < health ? "bg-grass" : "bg-muted"}`} />
+                  ))}
+                </span>
+              )}
+
+              {/* Tap dry corn to water it; worms sit on top so they can still be squashed */}
+              {drought && health > 0 && !harvestable && (
+                <button
+                  disabled={!tappable}
+                  onClick={() => tap({ type: "water", row, col })}
+                  className="absolute inset-0 cursor-pointer disabled:cursor-default"
+                  aria-label="Water the corn"
+                />
+              )}
+              {drought && health > 0 && (
+                <span className={`absolute top-0.5 right-1 text-xs select-none ${thirsty ? "animate-pulse" : ""}`} aria-hidden>
+                  {thirsty ? "🥵" : "💧"}
+                </span>
+              )}
+
+              {/* A power-up standing guard on this cell */}
+              {guard && (
+                <span className="absolute bottom-0.5 right-1 text-lg select-none bounce-in" aria-label={POWERUPS[guard.type].label}>
+                  {POWERUPS[guard.type].emoji}
+                </span>
+              )}
+
+              {/* Placed defense and the uses it has left */}
+              {defense && (
+                <span
+                  className={`absolute bottom-0.5 left-1 flex items-end gap-0.5 select-none ${defense.type === "fence" ? "text-xl" : "text-lg"}`}
+                  aria-label={`${DEFENSES[defense.type].label}, ${defense.durability} left`}
+                >
+                  {DEFENSES[defense.type].emoji}
+                  {defense.durability > 1 && (
+                    <span className="font-display text-[10px] font-bold text-foreground">×{defense.durability}</span>
+                  )}
+                </span>
+              )}
+
+              {cellWorms.map(w => (
+                <button
+                  key={w.id}
+                  disabled={!tappable}
+                  onClick={() => tap({ type: "squash", wormId: w.id })}
+                  className={`absolute inset-0 flex items-center justify-center cursor-pointer disabled:cursor-default z-10 hover:scale-110 transition-transform ${w.from ? "crawl-in" : "bounce-in"}`}
+                  style={w.from ? crawlStyle(w) : undefined}
+                  aria-label={`Squash the ${ENEMY_INFO[w.type].label}!`}
+                >
+                  <span className={`text-3xl sm:text-4xl wiggle select-none drop-shadow-lg ${ENEMY_INFO[w.type].className ?? ""}`}>
+                    {ENEMY_INFO[w.type].emoji}
+                  </span>
+                  {nextStepArrow(w) && (
+                    <span className="absolute top-0.5 right-1 text-xs text-accent select-none">{nextStepArrow(w)}</span>
+                  )}
+                  {ENEMY_STATS[w.type].hp > 1 && (
+                    <span className="absolute bottom-1 inset-x-0 text-center text-[10px] leading-none select-none">
+                      {"🛡️".repeat(w.hp - 1)}
+                    </span>
+                  )}
+                </button>
+              ))}
+
+              {/* A co-op power-up up for grabs */}
+              {pickup && (
+                <button
+                  disabled={!tappable}
+                  onClick={() => tap({ type: "claimPowerUp", powerUpId: pickup.id })}
+                  className="absolute top-0 right-0 z-20 w-7 h-7 rounded-full bg-card/90 border-2 border-secondary shadow-md flex items-center justify-center cursor-pointer disabled:cursor-default hover:scale-110 transition-transform bounce-in"
+                  aria-label={`Grab the ${POWERUPS[pickup.type].label}`}
+                >
+                  <span className="text-sm select-none animate-pulse">{POWERUPS[pickup.type].emoji}</span>
+                </button>
+              )}
+
+              {fogged && (
+                <div className="absolute inset-0 bg-muted/80 backdrop-blur-sm z-20 pointer-events-none" aria-hidden />
+              )}
+            </div>
+          );
+        })}
+
+        {night && <NightOverlay game={game} lantern={lantern} />}
+
+        {/* Keyboard cursor */}
+        {cursor && (
+          <div
+            className={`z-30 rounded-xl ring-4 pointer-events-none ${partner ? COOP_SEATS[cursorSeat].ring : "ring-primary"}`}
+            style={gridPlace(cursor[0], cursor[1])}
+            aria-hidden
+          />
+        )}
+
+        {/* The pointer player's marker, so co-op partners can tell each other apart */}
+        {partner && pointer && (
+          <div
+            className={`absolute z-30 w-6 h-6 -ml-3 -mt-3 rounded-full ring-4 ${COOP_SEATS[pointerSeat].ring} pointer-events-none`}
+            style={{ left: `${pointer.x}%`, top: `${pointer.y}%` }}
+            aria-hidden
+          />
+        )}
+
+        {/* Placement targets: living corn without a defense yet */}
+        {placing && tappable && Object.keys(game.cornHealth)
+          .filter(key => game.cornHealth[key] > 0 && !game.defenses[key])
+          .map(key => {
+            const [row, col] = key.split("-").map(Number);
+            return (
+              <button
+                key={`place-${key}`}
+                onClick={() => {
+                  tap({ type: "placeDefense", defense: placing, row, col });
+                  setPlacing(null);
+                }}
+                className="z-30 rounded-xl border-2 border-dashed border-primary bg-primary/10 flex items-center justify-center text-3xl opacity-70 hover:opacity-100 cursor-pointer"
+                style={gridPlace(row, col)}
+                aria-label={`Place a ${DEFENSES[placing].label.toLowerCase()} here`}
+              >
+                {DEFENSES[placing].emoji}
+              </button>
+            );
+          })}
+
+        {/* Boss, over the lower half of its cells so worms above stay tappable */}
+        {boss && (
+          <button
+            key={`boss-${boss.row}-${boss.col}`}
+            disabled={!tappable}
+            onClick={() => tap({ type: "hitBoss" })}
+            className={`relative z-20 self-end h-1/2 flex items-center justify-around rounded-full bg-grass/40 border-4 shadow-xl cursor-pointer disabled:cursor-default active:scale-95 transition-transform bounce-in ${boss.phase === 3 ? "border-destructive" : "border-grass"}`}
+            style={gridPlace(boss.row, boss.col, boss.width)}
+            aria-label={`Hit the giant caterpillar (${boss.hp}/${boss.maxHp})`}
+          >
+            {bossSegments(boss).map((segment, i) => (
+              <span
+                key={i}
+                className={`text-4xl sm:text-5xl select-none drop-shadow-lg ${boss.phase > 1 ? "wiggle" : ""}`}
+              >
+                {segment}
+              </span>
+            ))}
+          </button>
+        )}
+      </div>
+
+      {partner ? (
+        <div className="grid grid-cols-2 gap-2">
+          {seats.map((seat, i) => (
+            <div key={i}>
+              <PowerUpInventory
+                game={game}
+                player={i}
+                onAction={tappable && i === pointerSeat ? tap : undefined}
+                hotkeys={seat.powerUpKeys}
+              />
+              <p className={`mt-1 text-center font-display text-xs font-bold ${COOP_SEATS[i].text}`}>
+                {COOP_SEATS[i].emoji} {COOP_SEATS[i].name}
+              </p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <PowerUpInventory game={game} onAction={tappable ? tap : undefined} hotkeys={controls.powerUpKeys} />
+      )}
+      {tappable && <DefenseBar game={game} selected={placing} onSelect={setPlacing} />}
+
+      {debug && game.adaptive && <AdaptiveDebug adaptive={game.adaptive} />}
+    </div>
+  );
+};
+
+export default GameField;
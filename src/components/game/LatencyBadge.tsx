@@ -0,0 +1,18 @@
+interface LatencyBadgeProps {
+  /** Round trip to the server in ms; null while there's no connection. */
+  latency: number | null;
+}
+
+const latencyColor = (latency: number) =>
+  latency < 100 ? "text-primary" : latency < 250 ? "text-secondary" : "text-destructive";
+
+const LatencyBadge = ({ latency }: LatencyBadgeProps) => (
+  <span
+    className={`font-display text-xs font-bold ${latency === null ? "text-muted-foreground" : latencyColor(latency)}`}
+    title="Round trip to the versus server"
+  >
+    📶 {latency === null ? "—" : `${latency} ms`}
+  </span>
+);
+
+export default LatencyBadge;
@@ -0,0 +1,50 @@
+import type { CSSProperties } from "react";
+import { getLayoutSize } from "@/lib/game/layouts";
+import { LANTERN_RADIUS } from "@/lib/game/daynight";
+import { EngineState } from "@/lib/game/engine";
+
+interface NightOverlayProps {
+  game: EngineState;
+  /** Where the lantern shines, in percent of the field; null leaves it all dark. */
+  lantern: { x: number; y: number } | null;
+}
+
+const DARKNESS = "hsl(230 45% 6% / 0.93)";
+
+const cellCenter = (row: number, col: number, rows: number, cols: number): CSSProperties => ({
+  left: `${((col + 0.5) / cols) * 100}%`,
+  top: `${((row + 0.4) / rows) * 100}%`,
+});
+
+/** Darkens the field outside the lantern; worm eyes glow faintly through it. */
+const NightOverlay = ({ game, lantern }: NightOverlayProps) => {
+  const { rows, cols } = getLayoutSize(game.config.layout);
+  const rx = (LANTERN_RADIUS / cols) * 100;
+  const ry = (LANTERN_RADIUS / rows) * 100;
+  const background = lantern
+    ? `radial-gradient(ellipse ${rx}% ${ry}% at ${lantern.x}% ${lantern.y}%, transparent 60%, ${DARKNESS} 100%)`
+    : DARKNESS;
+
+  return (
+    <>
+      <div
+        className="absolute inset-0 rounded-xl z-[25] pointer-events-none transition-[background] duration-75"
+        style={{ background }}
+        aria-hidden
+      />
+      {game.worms.map(w => (
+        <span
+          key={w.id}
+          className="absolute z-[25] flex gap-1 -translate-x-1/2 pointer-events-none animate-pulse"
+          style={cellCenter(w.row, w.col, rows, cols)}
+          aria-hidden
+        >
+          <span className="w-1 h-1 rounded-full bg-corn-light shadow-[0_0_6px_hsl(var(--corn-gold))]" />
+          <span className="w-1 h-1 rounded-full bg-corn-light shadow-[0_0_6px_hsl(var(--corn-gold))]" />
+        </span>
+      ))}
+    </>
+  );
+};
+
+export default NightOverlay;
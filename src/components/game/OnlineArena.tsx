@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import GameBoard from "@/components/game/GameBoard";
+import LatencyBadge from "@/components/game/LatencyBadge";
+import { DEFAULT_CONFIG, EngineState } from "@/lib/game/engine";
+import type { OnlineMatch, OnlineOpponent } from "@/hooks/use-online-match";
+
+interface OnlineArenaProps {
+  match: OnlineMatch;
+  opponent: OnlineOpponent;
+  incoming: number;
+  latency: number | null;
+  /** Our own connection dropped and is being retried. */
+  reconnecting: boolean;
+  onAttack: (total: number) => void;
+  onState: (score: number, lives: number) => void;
+  onLost: (score: number) => void;
+  onForfeit: () => void;
+}
+
+const hearts = (lives: number, maxLives: number) =>
+  "❤️".repeat(Math.max(0, lives)) + "🖤".repeat(Math.max(0, maxLives - lives));
+
+/** Our field against a remote opponent, whose score and lives come in from the server. */
+const OnlineArena = ({
+  match, opponent, incoming, latency, reconnecting, onAttack, onState, onLost, onForfeit,
+}: OnlineArenaProps) => {
+  const maxLives = match.config.startingLives ?? DEFAULT_CONFIG.startingLives;
+  const [score, setScore] = useState(0);
+  const [lives, setLives] = useState(maxLives);
+  const [sent, setSent] = useState(0);
+  const [fallen, setFallen] = useState(false);
+  const [now, setNow] = useState(Date.now);
+
+  const sentRef = useRef(0);
+  const handleAttack = useCallback((worms: number) => {
+    sentRef.current += worms;
+    setSent(sentRef.current);
+    onAttack(sentRef.current);
+  }, [onAttack]);
+
+  useEffect(() => { onState(score, lives); }, [score, lives, onState]);
+
+  const handleGameOver = useCallback((_replay: unknown, game: EngineState) => {
+    setFallen(true);
+    onLost(game.score);
+  }, [onLost]);
+
+  // Counts down the opponent's chance to reconnect
+  useEffect(() => {
+    if (!opponent.awayUntil) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [opponent.awayUntil]);
+  const awaySeconds = opponent.awayUntil && Math.max(0, Math.ceil((opponent.awayUntil - now) / 1000));
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex justify-between items-center px-2">
+        <div className="font-display font-bold text-foreground">
+          <div>🧑‍🌾 You · ⭐ {score}</div>
+          <div className="text-sm">{hearts(lives, maxLives)}</div>
+        </div>
+        <LatencyBadge latency={latency} />
+        <div className="font-display font-bold text-foreground text-right">
+          <div>{opponent.name} · ⭐ {opponent.score}</div>
+          <div className="text-sm">{opponent.lives === null ? "…" : hearts(opponent.lives, maxLives)}</div>
+        </div>
+      </div>
+      <p className="px-2 text-muted-foreground font-body text-xs text-center">
+        ⚔️ sent {sent} · 🐛 received {incoming}
+      </p>
+      {reconnecting && (
+        <p className="mx-2 px-3 py-1.5 rounded-xl bg-destructive/10 text-destructive font-body text-sm text-center animate-pulse" role="status">
+          📡 Connection lost — reconnecting. Keep playing, your progress will catch up.
+        </p>
+      )}
+      {awaySeconds !== null && (
+        <p className="mx-2 px-3 py-1.5 rounded-xl bg-secondary/20 text-foreground font-body text-sm text-center" role="status">
+          🔌 {opponent.name} lost their connection — they forfeit in {awaySeconds}s unless they're back.
+        </p>
+      )}
+      <div className="relative mt-8">
+        <GameBoard
+          onScoreChange={setScore}
+          onLivesChange={setLives}
+          onAttack={handleAttack}
+          onGameOver={handleGameOver}
+          isPlaying
+          seed={match.seed}
+          config={match.config}
+          incoming={incoming}
+        />
+        {fallen && (
+          <div className="absolute -inset-2 z-40 rounded-2xl bg-background/80 backdrop-blur-sm flex items-center justify-center">
+            <p className="font-display text-xl font-bold text-foreground animate-pulse">Your field fell… waiting for the result</p>
+          </div>
+        )}
+      </div>
+      {!fallen && (
+        <button onClick={onForfeit} className="self-center text-muted-foreground font-body text-sm underline hover:text-foreground">
+          Forfeit 🏳️
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default OnlineArena;
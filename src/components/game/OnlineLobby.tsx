@@ -0,0 +1,82 @@
+import LatencyBadge from "@/components/game/LatencyBadge";
+import type { OnlineStatus } from "@/hooks/use-online-match";
+
+interface OnlineLobbyProps {
+  name: string;
+  onNameChange: (name: string) => void;
+  serverUrl: string;
+  onServerUrlChange: (url: string) => void;
+  status: OnlineStatus;
+  latency: number | null;
+  error: string | null;
+  onFind: () => void;
+  onCancel: () => void;
+  onBack: () => void;
+}
+
+const WAITING: Partial<Record<OnlineStatus, string>> = {
+  connecting: "🔌 Connecting to the server…",
+  queued: "🔎 Waiting for an opponent…",
+  reconnecting: "📡 Connection lost — reconnecting…",
+};
+
+const OnlineLobby = ({
+  name, onNameChange, serverUrl, onServerUrlChange, status, latency, error, onFind, onCancel, onBack,
+}: OnlineLobbyProps) => {
+  const waiting = WAITING[status];
+
+  return (
+    <div className="flex flex-col items-center gap-4 bounce-in">
+      <h2 className="font-display text-3xl font-bold text-primary">🌐 Online Versus</h2>
+      <p className="text-muted-foreground font-body text-sm text-center max-w-xs">
+        Get paired with another farmer. Every third hit of a combo sends worms to their field — last field standing wins.
+      </p>
+      {waiting ? (
+        <>
+          <p className="font-display font-bold text-foreground animate-pulse" role="status">{waiting}</p>
+          <LatencyBadge latency={latency} />
+          <button
+            onClick={onCancel}
+            className="text-muted-foreground font-body text-sm underline hover:text-foreground"
+          >
+            Cancel
+          </button>
+        </>
+      ) : (
+        <>
+          <input
+            value={name}
+            onChange={e => onNameChange(e.target.value)}
+            maxLength={20}
+            placeholder="Your name"
+            className="w-56 px-3 py-1.5 rounded-xl bg-card border border-border text-center text-sm font-body"
+            aria-label="Your name"
+          />
+          <input
+            value={serverUrl}
+            onChange={e => onServerUrlChange(e.target.value)}
+            placeholder="ws://localhost:8787"
+            className="w-56 px-3 py-1.5 rounded-xl bg-card border border-border text-center text-xs font-body"
+            aria-label="Server address"
+          />
+          {error && <p className="text-destructive font-body text-sm" role="alert">{error}</p>}
+          <button
+            onClick={onFind}
+            disabled={!name.trim() || !serverUrl.trim()}
+            className="px-8 py-4 bg-primary text-primary-foreground rounded-2xl font-display text-xl font-bold shadow-lg hover:scale-105 active:scale-95 transition-transform disabled:opacity-50 disabled:hover:scale-100"
+          >
+            Find Opponent 🌐
+          </button>
+          <p className="text-muted-foreground text-xs font-body text-center max-w-xs">
+            The field is set by whoever was waiting first. Run your own server with <code>npm run server</code>.
+          </p>
+        </>
+      )}
+      <button onClick={onBack} className="text-muted-foreground font-body text-sm underline hover:text-foreground">
+        Back to Menu
+      </button>
+    </div>
+  );
+};
+
+export default OnlineLobby;
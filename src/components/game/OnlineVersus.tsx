@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import OnlineLobby from "@/components/game/OnlineLobby";
+import OnlineArena from "@/components/game/OnlineArena";
+import VersusResults from "@/components/game/VersusResults";
+import { DEFAULT_SERVER_PORT, OnlineField } from "@/lib/game/online";
+import { useOnlineMatch } from "@/hooks/use-online-match";
+import { startBackgroundMusic, stopBackgroundMusic, playGameOverSound } from "@/lib/sounds";
+
+interface OnlineVersusProps {
+  /** The field we offer; the opponent's is used if they were waiting first. */
+  field: OnlineField;
+  onExit: () => void;
+}
+
+const defaultServerUrl = () =>
+  import.meta.env.VITE_VERSUS_SERVER || `ws://${window.location.hostname || "localhost"}:${DEFAULT_SERVER_PORT}`;
+
+/** Lobby, match and results for one online session. */
+const OnlineVersus = ({ field, onExit }: OnlineVersusProps) => {
+  const [name, setName] = useState("Farmer");
+  const [serverUrl, setServerUrl] = useState(defaultServerUrl);
+  const online = useOnlineMatch(serverUrl.trim());
+  const { status, match, opponent, result } = online;
+  const inMatch = (status === "playing" || status === "reconnecting") && match && opponent;
+
+  useEffect(() => {
+    if (!inMatch) return;
+    startBackgroundMusic();
+    return stopBackgroundMusic;
+  }, [inMatch]);
+
+  useEffect(() => {
+    if (result) playGameOverSound();
+  }, [result]);
+
+  const findMatch = () => online.findMatch(name.trim(), field);
+
+  const leave = () => {
+    online.leave();
+    onExit();
+  };
+
+  if (inMatch) {
+    return (
+      <OnlineArena
+        key={match.seed}
+        match={match}
+        opponent={opponent}
+        incoming={online.incoming}
+        latency={online.latency}
+        reconnecting={status === "reconnecting"}
+        onAttack={online.sendAttack}
+        onState={online.sendState}
+        onLost={online.sendLost}
+        onForfeit={online.leave}
+      />
+    );
+  }
+
+  if (status === "finished" && result) {
+    return <VersusResults result={result} onRematch={findMatch} rematchLabel="Find Another 🌐" onMenu={onExit} />;
+  }
+
+  return (
+    <OnlineLobby
+      name={name}
+      onNameChange={setName}
+      serverUrl={serverUrl}
+      onServerUrlChange={setServerUrl}
+      status={status}
+      latency={online.latency}
+      error={online.error}
+      onFind={findMatch}
+      onCancel={online.leave}
+      onBack={leave}
+    />
+  );
+};
+
+export default OnlineVersus;
@@ -0,0 +1,62 @@
+import { ownsPowerUp, slotPowerUp, EngineState, GameAction } from "@/lib/game/engine";
+import { POWERUPS, POWERUP_TYPES } from "@/lib/game/powerups";
+
+interface PowerUpInventoryProps {
+  game: EngineState;
+  /** Omit to render the slots read-only. */
+  onAction?: (action: GameAction) => void;
+  /** Keys that use each slot, shown as badges. */
+  hotkeys?: string[];
+  /** Whose power-ups to show, in co-op. */
+  player?: number;
+}
+
+const RING_RADIUS = 18;
+const RING_LENGTH = 2 * Math.PI * RING_RADIUS;
+
+/** One fixed slot per power-up type. */
+const PowerUpInventory = ({ game, onAction, hotkeys = [], player = 0 }: PowerUpInventoryProps) => (
+  <div className="flex flex-wrap gap-2 justify-center mt-4 max-w-sm mx-auto">
+    {POWERUP_TYPES.map((type, i) => {
+      const info = POWERUPS[type];
+      const count = game.powerUps.filter(p => p.type === type && ownsPowerUp(p, player)).length;
+      const next = slotPowerUp(game, type, player);
+      // The ring drains as the next one in the stack runs out of time
+      const remaining = next?.expiresAt == null ? 1 : Math.max(0, (next.expiresAt - game.time) / game.config.powerUpLifetime);
+      return (
+        <button
+          key={type}
+          disabled={!onAction || !next}
+          onClick={() => onAction({ type: "usePowerUp", powerUpId: next.id })}
+          title={`${info.label} - ${info.description}`}
+          className={`relative w-11 h-11 rounded-full bg-card border-2 border-border shadow-md flex items-center justify-center hover:scale-105 active:scale-95 transition-transform cursor-pointer disabled:cursor-default disabled:hover:scale-100 ${next ? "" : "opacity-40"}`}
+          aria-label={`Use ${info.label} (${count} left${hotkeys[i] ? `, key ${hotkeys[i]}` : ""})`}
+        >
+          {next && (
+            <svg className="absolute inset-0 -rotate-90" viewBox="0 0 44 44" aria-hidden>
+              <circle
+                cx="22" cy="22" r={RING_RADIUS} fill="none" strokeWidth="3" strokeLinecap="round"
+                className="stroke-secondary"
+                strokeDasharray={RING_LENGTH}
+                strokeDashoffset={RING_LENGTH * (1 - remaining)}
+              />
+            </svg>
+          )}
+          <span className="text-xl select-none">{info.emoji}</span>
+          {hotkeys[i] && (
+            <span className="absolute -top-1 -left-1 w-4 h-4 rounded-full bg-muted font-display text-[10px] font-bold flex items-center justify-center">
+              {hotkeys[i]}
+            </span>
+          )}
+          {count > 1 && (
+            <span className="absolute -bottom-1 -right-1 px-1.5 rounded-full bg-primary text-primary-foreground font-display text-xs font-bold bounce-in">
+              ×{count}
+            </span>
+          )}
+        </button>
+      );
+    })}
+  </div>
+);
+
+export default PowerUpInventory;
@@ -0,0 +1,57 @@
+import { useMemo } from "react";
+import { STAGES, isStageUnlocked, loadProgress, Stage } from "@/lib/game/campaign";
+import { describeObjective } from "@/lib/game/objectives";
+
+interface StageSelectProps {
+  onSelect: (stage: Stage) => void;
+  onBack: () => void;
+}
+
+const renderStars = (stars: number) => "⭐".repeat(stars) + "☆".repeat(3 - stars);
+
+const StageSelect = ({ onSelect, onBack }: StageSelectProps) => {
+  const progress = useMemo(loadProgress, []);
+  const totalStars = STAGES.reduce((sum, s) => sum + (progress[s.id] ?? 0), 0);
+
+  return (
+    <div className="flex flex-col items-center gap-4 bounce-in">
+      <h2 className="font-display text-3xl font-bold text-primary">🗺️ Campaign</h2>
+      <p className="text-muted-foreground font-body text-sm">
+        {totalStars}/{STAGES.length * 3} stars earned
+      </p>
+      <div className="w-full flex flex-col gap-2">
+        {STAGES.map((stage, i) => {
+          const unlocked = isStageUnlocked(i, progress);
+          return (
+            <button
+              key={stage.id}
+              disabled={!unlocked}
+              onClick={() => onSelect(stage)}
+              className="flex items-center justify-between gap-3 px-4 py-3 rounded-2xl bg-card border-2 border-border text-left shadow-sm hover:scale-[1.02] active:scale-95 transition-transform disabled:opacity-50 disabled:hover:scale-100"
+            >
+              <div>
+                <p className="font-display font-bold text-foreground">
+                  {i + 1}. {stage.name}
+                </p>
+                <p className="text-muted-foreground font-body text-xs">
+                  {describeObjective(stage.objective)} · {stage.layout.name}
+                </p>
+              </div>
+              <span className="font-display text-sm whitespace-nowrap">
+                {unlocked ? renderStars(progress[stage.id] ?? 0) : "🔒"}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      <button
+        onClick={onBack}
+        className="text-muted-foreground font-body text-sm underline hover:text-foreground"
+      >
+        Back to Menu
+      </button>
+    </div>
+  );
+};
+
+export default StageSelect;
@@ -0,0 +1,87 @@
+import { useMemo, useRef, useState } from "react";
+import GameBoard from "@/components/game/GameBoard";
+import { DEFAULT_CONFIG, EngineState, GameConfig } from "@/lib/game/engine";
+import { VersusResult } from "@/lib/game/versus";
+import { KEYBOARD_CONTROLS, POINTER_CONTROLS } from "@/lib/controls";
+
+interface VersusArenaProps {
+  seed: number;
+  config: Partial<GameConfig>;
+  paused: boolean;
+  onFinish: (result: VersusResult) => void;
+}
+
+const SIDES = [
+  { name: "Player 1", emoji: "⌨️", hint: "WASD to move · Space to squash · 1–7 power-ups", controls: KEYBOARD_CONTROLS },
+  { name: "Player 2", emoji: "🖱️", hint: "Mouse or touch", controls: POINTER_CONTROLS },
+];
+
+const replaceAt = <T,>(pair: [T, T], i: number, value: T): [T, T] =>
+  (i === 0 ? [value, pair[1]] : [pair[0], value]);
+
+/** Two fields on the same seed side by side; combos on one send worms to the other. */
+const VersusArena = ({ seed, config, paused, onFinish }: VersusArenaProps) => {
+  const maxLives = config.startingLives ?? DEFAULT_CONFIG.startingLives;
+  const [scores, setScores] = useState<[number, number]>([0, 0]);
+  const [lives, setLives] = useState<[number, number]>([maxLives, maxLives]);
+  const [sent, setSent] = useState<[number, number]>([0, 0]);
+  const [finished, setFinished] = useState(false);
+
+  // Read when a side falls, so the result carries the latest numbers
+  const latest = useRef({ scores, sent });
+  latest.current = { scores, sent };
+  const onFinishRef = useRef(onFinish);
+  onFinishRef.current = onFinish;
+  const finishedRef = useRef(false);
+
+  const handlers = useMemo(() => [0, 1].map(i => ({
+    onScoreChange: (score: number) => setScores(s => replaceAt(s, i, score)),
+    onLivesChange: (left: number) => setLives(l => replaceAt(l, i, left)),
+    onAttack: (worms: number) => setSent(s => replaceAt(s, i, s[i] + worms)),
+    // The first field to fall loses
+    onGameOver: (_replay: unknown, game: EngineState) => {
+      if (finishedRef.current) return;
+      finishedRef.current = true;
+      setFinished(true);
+      const scores = replaceAt(latest.current.scores, i, game.score);
+      onFinishRef.current({
+        sides: [0, 1].map(side => ({ name: SIDES[side].name, score: scores[side], sent: latest.current.sent[side] })) as VersusResult["sides"],
+        winner: i === 0 ? 1 : 0,
+      });
+    },
+  })), []);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+      {SIDES.map((side, i) => (
+        <div key={side.name} className="flex flex-col gap-2">
+          <div className="flex justify-between items-center px-2">
+            <div className="font-display font-bold text-foreground">
+              {side.emoji} {side.name} · ⭐ {scores[i]}
+            </div>
+            <div className="font-display font-bold text-sm">
+              {"❤️".repeat(Math.max(0, lives[i]))}{"🖤".repeat(Math.max(0, maxLives - lives[i]))}
+            </div>
+          </div>
+          <p className="px-2 text-muted-foreground font-body text-xs">
+            {side.hint} · ⚔️ sent {sent[i]}
+          </p>
+          <div className="mt-8">
+            <GameBoard
+              {...handlers[i]}
+              isPlaying
+              paused={paused || finished}
+              seed={seed}
+              config={config}
+              controls={side.controls}
+              incoming={sent[1 - i]}
+              ambient={i === 0}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VersusArena;
@@ -0,0 +1,44 @@
+import { VersusResult } from "@/lib/game/versus";
+
+interface VersusResultsProps {
+  result: VersusResult;
+  onRematch: () => void;
+  rematchLabel?: string;
+  onMenu: () => void;
+}
+
+const VersusResults = ({ result, onRematch, rematchLabel = "Rematch ⚔️", onMenu }: VersusResultsProps) => (
+  <div className="flex flex-col items-center gap-5 bounce-in">
+    <div className="text-6xl">🏆</div>
+    <h2 className="font-display text-3xl font-bold text-accent">{result.sides[result.winner].name} wins!</h2>
+    <div className="grid grid-cols-2 gap-3 w-full max-w-md">
+      {result.sides.map((side, i) => (
+        <div
+          key={side.name}
+          className={`bg-card rounded-2xl p-5 shadow-lg text-center border-2 ${i === result.winner ? "border-secondary" : "border-border"}`}
+        >
+          <p className="font-display font-bold text-foreground mb-1">
+            {i === result.winner ? "👑 " : ""}{side.name}
+          </p>
+          <p className="font-display text-3xl font-bold text-secondary">{side.score}</p>
+          <p className="text-muted-foreground font-body text-xs">points</p>
+          <p className="text-muted-foreground font-body text-xs mt-2">⚔️ {side.sent} worms sent</p>
+        </div>
+      ))}
+    </div>
+    {result.forfeit && (
+      <p className="text-muted-foreground font-body text-sm">🏳️ {result.sides[1 - result.winner].name} left the match</p>
+    )}
+    <button
+      onClick={onRematch}
+      className="px-8 py-4 bg-primary text-primary-foreground rounded-2xl font-display text-xl font-bold shadow-lg hover:scale-105 active:scale-95 transition-transform"
+    >
+      {rematchLabel}
+    </button>
+    <button onClick={onMenu} className="text-muted-foreground font-body text-sm underline hover:text-foreground">
+      Back to Menu
+    </button>
+  </div>
+);
+
+export default VersusResults;
@@ -0,0 +1,36 @@
+import * as React from "react";
+import { TICK_MS } from "@/lib/game/engine";
+
+// Longest frame gap we catch up on; anything beyond is dropped rather than
+// simulated in one burst.
+const MAX_FRAME_MS = 250;
+
+/**
+ * Drives a fixed-timestep loop from requestAnimationFrame. Once per frame,
+ * `onTicks` receives how many whole TICK_MS steps are due at the given speed.
+ */
+export function useGameLoop(onTicks: (ticks: number) => void, running: boolean, speed = 1) {
+  const onTicksRef = React.useRef(onTicks);
+  onTicksRef.current = onTicks;
+
+  React.useEffect(() => {
+    if (!running) return;
+    let frame: number;
+    let last = performance.now();
+    let pending = 0;
+
+    const loop = (now: number) => {
+      pending += Math.min(now - last, MAX_FRAME_MS) * speed;
+      last = now;
+      const ticks = Math.floor(pending / TICK_MS);
+      if (ticks > 0) {
+        pending -= ticks * TICK_MS;
+        onTicksRef.current(ticks);
+      }
+      frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+
+    return () => cancelAnimationFrame(frame);
+  }, [running, speed]);
+}
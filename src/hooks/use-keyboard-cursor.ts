@@ -0,0 +1,47 @@
+import * as React from "react";
+import { keyName, CursorKeys } from "@/lib/controls";
+
+/**
+ * A cell cursor driven by the given keys; the select keys pick the cell under
+ * it. The cursor appears on the first key press and starts mid-field. Passing
+ * null keys turns it off.
+ */
+export function useKeyboardCursor(
+  rows: number,
+  cols: number,
+  keys: CursorKeys | null,
+  onSelect: (row: number, col: number) => void,
+) {
+  const [cursor, setCursor] = React.useState<[number, number] | null>(null);
+  const onSelectRef = React.useRef(onSelect);
+  onSelectRef.current = onSelect;
+  const cursorRef = React.useRef(cursor);
+  cursorRef.current = cursor;
+
+  React.useEffect(() => {
+    if (!keys) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+      const key = keyName(e);
+      const move = keys.moves[key];
+      const current = cursorRef.current;
+      if (move) {
+        e.preventDefault();
+        if (!current) {
+          setCursor([Math.floor(rows / 2), Math.floor(cols / 2)]);
+          return;
+        }
+        const row = Math.min(rows - 1, Math.max(0, current[0] + move[0]));
+        const col = Math.min(cols - 1, Math.max(0, current[1] + move[1]));
+        setCursor([row, col]);
+      } else if (keys.select.includes(key) && current) {
+        e.preventDefault();
+        onSelectRef.current(current[0], current[1]);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [rows, cols, keys]);
+
+  return [cursor, setCursor] as const;
+}
@@ -0,0 +1,186 @@
+import * as React from "react";
+import type { GameConfig } from "@/lib/game/engine";
+import type { VersusResult } from "@/lib/game/versus";
+import {
+  onlineConfig, onlineResult, parseServerMessage, PING_INTERVAL, RECONNECT_GRACE, ClientMessage, OnlineField, ServerMessage,
+} from "@/lib/game/online";
+
+export type OnlineStatus = "idle" | "connecting" | "queued" | "playing" | "reconnecting" | "finished" | "failed";
+
+export interface OnlineOpponent {
+  name: string;
+  score: number;
+  /** Null until their field reports in. */
+  lives: number | null;
+  /** When the opponent forfeits if they don't reconnect, while they're away. */
+  awayUntil: number | null;
+}
+
+export interface OnlineMatch {
+  seed: number;
+  config: Partial<GameConfig>;
+}
+
+// Waits between reconnect attempts, the last one repeating until the grace runs out
+const RETRY_DELAYS = [500, 1000, 2000, 4000];
+
+/**
+ * A connection to the versus server. Finding a match queues up; once paired,
+ * the board reports attacks, its score and its fall through the send
+ * functions. A dropped connection is retried with the resume token until the
+ * server would have given up on us, and what the board last reported is sent
+ * again on the way back in.
+ */
+export function useOnlineMatch(url: string) {
+  const [status, setStatus] = React.useState<OnlineStatus>("idle");
+  const [latency, setLatency] = React.useState<number | null>(null);
+  const [match, setMatch] = React.useState<OnlineMatch | null>(null);
+  const [opponent, setOpponent] = React.useState<OnlineOpponent | null>(null);
+  const [incoming, setIncoming] = React.useState(0);
+  const [result, setResult] = React.useState<VersusResult | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const socketRef = React.useRef<WebSocket | null>(null);
+  const statusRef = React.useRef(status);
+  const tokenRef = React.useRef<string | null>(null);
+  const pairedRef = React.useRef(false);
+  const joinRef = React.useRef<ClientMessage | null>(null);
+  // Everything the server should know about our field, sent again after a drop
+  const reportRef = React.useRef<ClientMessage[]>([]);
+  const retryRef = React.useRef({ attempt: 0, giveUpAt: 0, timer: 0 });
+
+  const moveTo = React.useCallback((next: OnlineStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  }, []);
+
+  const send = React.useCallback((message: ClientMessage) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  }, []);
+
+  const hangUp = React.useCallback(() => {
+    window.clearTimeout(retryRef.current.timer);
+    const socket = socketRef.current;
+    socketRef.current = null;
+    socket?.close();
+  }, []);
+
+  const onMessage = React.useCallback((message: ServerMessage) => {
+    if (message.type === "pong") {
+      setLatency(Date.now() - message.at);
+    } else if (message.type === "queued") {
+      tokenRef.current = message.token;
+      moveTo("queued");
+    } else if (message.type === "matched") {
+      pairedRef.current = true;
+      reportRef.current = [];
+      setMatch({ seed: message.seed, config: onlineConfig(message.field) });
+      setOpponent({ name: message.opponent, score: 0, lives: null, awayUntil: null });
+      setIncoming(0);
+      moveTo("playing");
+    } else if (message.type === "resumed") {
+      moveTo("playing");
+      reportRef.current.forEach(send);
+    } else if (message.type === "incoming") {
+      setIncoming(message.total);
+    } else if (message.type === "opponent") {
+      setOpponent(o => ({ ...o, score: message.score, lives: message.lives }));
+    } else if (message.type === "opponentAway") {
+      setOpponent(o => ({ ...o, awayUntil: Date.now() + message.grace }));
+    } else if (message.type === "opponentBack") {
+      setOpponent(o => ({ ...o, awayUntil: null }));
+    } else if (message.type === "result") {
+      setResult(onlineResult(message));
+      moveTo("finished");
+      hangUp();
+    } else if (message.type === "error") {
+      setError(message.message);
+      moveTo("failed");
+      hangUp();
+    }
+  }, [moveTo, send, hangUp]);
+
+  const connect = React.useCallback((hello: ClientMessage) => {
+    const socket = new WebSocket(url);
+    socketRef.current = socket;
+    let ping = 0;
+
+    socket.onopen = () => {
+      retryRef.current.attempt = 0;
+      socket.send(JSON.stringify(hello));
+      const sendPing = () => send({ type: "ping", at: Date.now() });
+      sendPing();
+      ping = window.setInterval(sendPing, PING_INTERVAL);
+    };
+    socket.onmessage = e => {
+      const message = parseServerMessage(String(e.data));
+      if (message && socketRef.current === socket) onMessage(message);
+    };
+    socket.onclose = () => {
+      window.clearInterval(ping);
+      // Closed on purpose, or replaced by a newer connection
+      if (socketRef.current !== socket) return;
+      socketRef.current = null;
+      setLatency(null);
+      const retry = retryRef.current;
+      const current = statusRef.current;
+      if (current === "connecting") {
+        setError("Couldn't reach the versus server.");
+        moveTo("failed");
+        return;
+      }
+      if (current !== "reconnecting") {
+        retry.giveUpAt = Date.now() + RECONNECT_GRACE;
+        moveTo("reconnecting");
+      }
+      if (Date.now() >= retry.giveUpAt) {
+        setError("Lost the connection to the versus server.");
+        moveTo("failed");
+        return;
+      }
+      const delay = RETRY_DELAYS[Math.min(retry.attempt, RETRY_DELAYS.length - 1)];
+      retry.attempt++;
+      // A match is picked back up; a spot in the queue is just taken again
+      const again: ClientMessage = pairedRef.current ? { type: "resume", token: tokenRef.current } : joinRef.current;
+      retry.timer = window.setTimeout(() => connect(again), delay);
+    };
+  }, [url, send, onMessage, moveTo]);
+
+  const findMatch = React.useCallback((name: string, field: OnlineField) => {
+    hangUp();
+    joinRef.current = { type: "join", name, field };
+    tokenRef.current = null;
+    pairedRef.current = false;
+    reportRef.current = [];
+    setMatch(null);
+    setOpponent(null);
+    setResult(null);
+    setError(null);
+    moveTo("connecting");
+    connect(joinRef.current);
+  }, [hangUp, moveTo, connect]);
+
+  const leave = React.useCallback(() => {
+    send({ type: "leave" });
+    hangUp();
+    moveTo("idle");
+  }, [send, hangUp, moveTo]);
+
+  // Keep the latest report of each kind
+  const report = React.useCallback((message: ClientMessage) => {
+    reportRef.current = [...reportRef.current.filter(m => m.type !== message.type), message];
+    send(message);
+  }, [send]);
+
+  const sendAttack = React.useCallback((total: number) => report({ type: "attack", total }), [report]);
+  const sendState = React.useCallback((score: number, lives: number) => report({ type: "state", score, lives }), [report]);
+  const sendLost = React.useCallback((score: number) => report({ type: "lost", score }), [report]);
+
+  React.useEffect(() => hangUp, [hangUp]);
+
+  return {
+    status, latency, match, opponent, incoming, result, error,
+    findMatch, leave, sendAttack, sendState, sendLost,
+  };
+}
@@ -0,0 +1,47 @@
+// Who drives a board and with what. Solo play takes everything; local versus
+// splits the keyboard and the pointer between the two boards, and co-op
+// seats both on one.
+
+import type { GameAction } from "@/lib/game/engine";
+import { POWERUP_TYPES } from "@/lib/game/powerups";
+
+export interface CursorKeys {
+  /** Keys that move the cell cursor, by the row and column step they take. */
+  moves: Record<string, [number, number]>;
+  /** Keys that act on the cell under the cursor. */
+  select: string[];
+}
+
+export interface Controls {
+  /** Keys for the cell cursor; null turns the cursor off. */
+  cursor: CursorKeys | null;
+  /** Whether taps and clicks act on the board. */
+  pointer: boolean;
+  /** Keys for the power-up slots, in slot order. */
+  powerUpKeys: string[];
+}
+
+export const ARROW_KEYS: CursorKeys = {
+  moves: { ArrowUp: [-1, 0], ArrowDown: [1, 0], ArrowLeft: [0, -1], ArrowRight: [0, 1] },
+  select: ["Enter", " "],
+};
+
+export const WASD_KEYS: CursorKeys = {
+  moves: { w: [-1, 0], s: [1, 0], a: [0, -1], d: [0, 1] },
+  select: [" ", "e"],
+};
+
+const NUMBER_KEYS = POWERUP_TYPES.map((_, i) => String(i + 1));
+
+export const SOLO_CONTROLS: Controls = { cursor: ARROW_KEYS, pointer: true, powerUpKeys: NUMBER_KEYS };
+
+export const KEYBOARD_CONTROLS: Controls = { cursor: WASD_KEYS, pointer: false, powerUpKeys: NUMBER_KEYS };
+
+export const POINTER_CONTROLS: Controls = { cursor: null, pointer: true, powerUpKeys: [] };
+
+/** Letters match whatever the case, so Caps Lock or Shift don't get in the way. */
+export const keyName = (e: KeyboardEvent) => (e.key.length === 1 ? e.key.toLowerCase() : e.key);
+
+/** Tags an action with the player who made it when a board has more than one. */
+export const actionBy = (action: GameAction, player: number, shared: boolean): GameAction =>
+  (shared ? { ...action, player } : action);
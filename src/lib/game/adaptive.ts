@@ -0,0 +1,86 @@
+// Optional adaptive difficulty. The engine feeds every step's events through
+// observe(), which keeps running averages of how the player is doing and
+// nudges a challenge rating so the pressure they're under stays in a band.
+// The rating then speeds up spawns and shortens worm lifetimes, or the reverse.
+
+import type { GameEvent, Worm } from "@/lib/game/engine";
+
+export interface AdaptiveState {
+  /** Multiplies spawn rate and divides worm lifetime; 1 is the authored pace. */
+  challenge: number;
+  /** Running average of time-to-squash as a share of the worm's lifetime. */
+  reaction: number;
+  /** Running average of worms that got away (1) versus got squashed (0). */
+  missRate: number;
+  /** Recent lives lost, decaying over time. */
+  lifeLoss: number;
+  /** How hard the player is finding it right now, 0–1. */
+  pressure: number;
+  nextAdjustAt: number;
+}
+
+export const ADJUST_INTERVAL = 1000;
+
+/** Pressure the director tries to keep the player within. */
+export const TARGET_BAND: [number, number] = [0.3, 0.5];
+
+export const CHALLENGE_RANGE: [number, number] = [0.5, 2];
+
+const CHALLENGE_STEP = 0.05;
+const SMOOTHING = 0.2;
+const LIFE_LOSS_DECAY = 0.9;
+const LIFE_LOSS_CAP = 3;
+
+const average = (current: number, sample: number) => current + (sample - current) * SMOOTHING;
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.min(max, Math.max(min, value));
+
+export const createAdaptive = (time = 0): AdaptiveState => ({
+  challenge: 1,
+  reaction: 0.5,
+  missRate: 0.2,
+  lifeLoss: 0,
+  pressure: 0.4,
+  nextAdjustAt: time + ADJUST_INTERVAL,
+});
+
+export const spawnScale = (adaptive: AdaptiveState | null) => (adaptive ? 1 / adaptive.challenge : 1);
+
+export const lifetimeScale = (adaptive: AdaptiveState | null) => (adaptive ? 1 / Math.sqrt(adaptive.challenge) : 1);
+
+function measurePressure(a: AdaptiveState) {
+  return 0.4 * a.reaction + 0.4 * a.missRate + 0.2 * Math.min(1, a.lifeLoss / LIFE_LOSS_CAP);
+}
+
+/** Folds one step's events into the averages and adjusts the challenge once a second. */
+export function observe(
+  adaptive: AdaptiveState,
+  events: GameEvent[],
+  livesLost: number,
+  time: number,
+  lifetimeOf: (worm: Worm) => number,
+): AdaptiveState {
+  let next = { ...adaptive, lifeLoss: adaptive.lifeLoss + livesLost };
+  events.forEach(e => {
+    if (e.type === "squash") {
+      const reaction = Math.min(1, (time - e.worm.createdAt) / lifetimeOf(e.worm));
+      next = { ...next, reaction: average(next.reaction, reaction), missRate: average(next.missRate, 0) };
+    }
+    if (e.type === "damage" || e.type === "fled") {
+      e.worms.forEach(() => { next = { ...next, missRate: average(next.missRate, 1) }; });
+    }
+  });
+  if (time < next.nextAdjustAt) return next;
+
+  const pressure = measurePressure(next);
+  let { challenge } = next;
+  if (pressure < TARGET_BAND[0]) challenge += CHALLENGE_STEP;
+  if (pressure > TARGET_BAND[1]) challenge -= CHALLENGE_STEP;
+  return {
+    ...next,
+    pressure,
+    challenge: clamp(challenge, CHALLENGE_RANGE),
+    lifeLoss: next.lifeLoss * LIFE_LOSS_DECAY,
+    nextAdjustAt: next.nextAdjustAt + ADJUST_INTERVAL,
+  };
+}
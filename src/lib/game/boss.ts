@@ -0,0 +1,81 @@
+// Boss fights: a giant caterpillar that arrives every few levels, spans
+// several cells, and attacks on a timer with a pattern that depends on its
+// phase. The engine owns the state transitions; these are the rules.
+
+import { getCell, getLayoutSize, FieldLayout } from "@/lib/game/layouts";
+
+export type BossPhase = 1 | 2 | 3;
+
+export interface Boss {
+  /** 1 for the first boss of a run, 2 for the second, ... */
+  number: number;
+  row: number;
+  col: number;
+  width: number;
+  hp: number;
+  maxHp: number;
+  phase: BossPhase;
+  nextAttackAt: number;
+  nextMoveAt: number;
+}
+
+export const BOSS_WIDTH = 3;
+
+/** Normal spawns slow down by this factor while a boss is on the field. */
+export const BOSS_SPAWN_SLOWDOWN = 2;
+
+/** How long before an attack its target cells are highlighted. */
+export const BOSS_TELEGRAPH = 1000;
+
+export const PHASE_TIMING: Record<BossPhase, { attackInterval: number; moveInterval: number }> = {
+  1: { attackInterval: 4000, moveInterval: 3000 },
+  2: { attackInterval: 3000, moveInterval: 2000 },
+  3: { attackInterval: 2000, moveInterval: 1200 },
+};
+
+/** Hatchlings the boss spits out with each phase 3 attack. */
+export const RAMPAGE_SPAWNS = 2;
+
+/** Damage a pesticide does to the boss, on top of clearing the small fry. */
+export const PESTICIDE_BOSS_DAMAGE = 3;
+
+/** First multiple of `every` above `level`. */
+export const nextBossLevel = (level: number, every: number) => (Math.floor(level / every) + 1) * every;
+
+export const bossMaxHp = (number: number) => 10 + number * 5;
+
+export const bossReward = (number: number) => ({ points: 200 * number, lives: 1, heal: 1 });
+
+export function bossPhase(hp: number, maxHp: number): BossPhase {
+  if (hp * 3 <= maxHp) return 3;
+  if (hp * 3 <= maxHp * 2) return 2;
+  return 1;
+}
+
+export const bossCells = (boss: Boss): [number, number][] =>
+  Array.from({ length: boss.width }, (_, i) => [boss.row, boss.col + i]);
+
+/** Runs of corn cells in a row wide enough for the boss to sit on. */
+export function bossPositions(layout: FieldLayout, width: number): [number, number][] {
+  const { rows, cols } = getLayoutSize(layout);
+  const positions: [number, number][] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c + width <= cols; c++) {
+      const cells = Array.from({ length: width }, (_, i) => getCell(layout, r, c + i));
+      if (cells.every(cell => cell.kind === "corn")) positions.push([r, c]);
+    }
+  }
+  return positions;
+}
+
+/**
+ * Cells the next attack will hit. Phase 1 chomps the cells under the boss;
+ * from phase 2 on it slams the rows above and below as well.
+ */
+export function bossAttackCells(boss: Boss, layout: FieldLayout): [number, number][] {
+  const under = bossCells(boss);
+  const cells = boss.phase === 1
+    ? under
+    : under.flatMap(([r, c]) => [[r - 1, c], [r, c], [r + 1, c]] as [number, number][]);
+  return cells.filter(([r, c]) => getCell(layout, r, c).kind === "corn");
+}
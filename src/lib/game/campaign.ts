@@ -0,0 +1,83 @@
+// Campaign stages and saved progress. Each stage is a layout plus config
+// overrides and an objective; progress is the best star rating per stage.
+
+import { GameConfig } from "@/lib/game/engine";
+import { getLayout, FieldLayout } from "@/lib/game/layouts";
+import { Objective } from "@/lib/game/objectives";
+import { getWaveSet } from "@/lib/game/waves";
+
+const STORAGE_KEY = "corn-defender-campaign";
+
+export interface Stage {
+  id: string;
+  name: string;
+  layout: FieldLayout;
+  objective: Objective;
+  config?: Partial<GameConfig>;
+}
+
+type CampaignProgress = Record<string, number>;
+
+export const STAGES: Stage[] = [
+  {
+    id: "first-sprouts",
+    name: "First Sprouts",
+    layout: getLayout("classic"),
+    objective: { type: "survive", seconds: 60 },
+  },
+  {
+    id: "worm-rush",
+    name: "Worm Rush",
+    layout: getLayout("pond"),
+    objective: { type: "squash", count: 40 },
+    config: { startingLevel: 2, waves: getWaveSet("swarm") },
+  },
+  {
+    id: "crossroads",
+    name: "Crossroads",
+    layout: getLayout("cross"),
+    objective: { type: "protect", corn: 10, seconds: 60 },
+    config: { startingLevel: 3 },
+  },
+  {
+    id: "terraces",
+    name: "Terraces",
+    layout: getLayout("terraces"),
+    objective: { type: "score", points: 500, timeLimit: 120 },
+    config: { startingLevel: 3 },
+  },
+  {
+    id: "big-harvest",
+    name: "The Big Harvest",
+    layout: getLayout("big"),
+    objective: { type: "protect", corn: 16, seconds: 90 },
+    config: { startingLevel: 5 },
+  },
+];
+
+// Stages are short and scripted, so power-ups are banked rather than timing out
+export const stageConfig = (stage: Stage): Partial<GameConfig> => ({
+  powerUpRule: "bank",
+  ...stage.config,
+  layout: stage.layout,
+  objective: stage.objective,
+});
+
+export function loadProgress(): CampaignProgress {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+/** Keeps the best star rating earned on a stage. */
+export function saveStageResult(stageId: string, stars: number) {
+  const progress = loadProgress();
+  progress[stageId] = Math.max(progress[stageId] ?? 0, stars);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+}
+
+/** The first stage is always open; later ones need the previous stage cleared. */
+export const isStageUnlocked = (index: number, progress: CampaignProgress) =>
+  index === 0 || (progress[STAGES[index - 1].id] ?? 0) > 0;
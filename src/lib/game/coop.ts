@@ -0,0 +1,28 @@
+// Co-op: two players defend one field with a shared pool of lives. Every
+// action is credited to whoever made it, power-ups go to whoever grabs them
+// first, and the end screen shows what each player did.
+
+export interface PlayerStats {
+  squashed: number;
+  /** Points earned, before any were spent on defenses. */
+  points: number;
+  /** Power-ups claimed off the field. */
+  powerUps: number;
+}
+
+export const newPlayerStats = (): PlayerStats => ({ squashed: 0, points: 0, powerUps: 0 });
+
+export const COOP_PLAYERS = 2;
+
+/** How each seat shows up on the shared field and in the results. */
+export const COOP_SEATS = [
+  { name: "Player 1", emoji: "🖱️", hint: "Mouse or touch", text: "text-sky", ring: "ring-sky", bg: "bg-sky" },
+  { name: "Player 2", emoji: "⌨️", hint: "WASD to move · Space to squash · 1–7 power-ups", text: "text-accent", ring: "ring-accent", bg: "bg-accent" },
+];
+
+/** Each player's share of the points, in whole percent. */
+export function contributions(players: PlayerStats[]): number[] {
+  const total = players.reduce((sum, p) => sum + p.points, 0);
+  if (total === 0) return players.map(() => Math.round(100 / players.length));
+  return players.map(p => Math.round((p.points / total) * 100));
+}
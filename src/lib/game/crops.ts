@@ -0,0 +1,45 @@
+// Corn as a crop: each living plant grows from seedling to stalk to ripe.
+// Ripe corn can be harvested for points and replanted, and draws worms in.
+
+export type GrowthStage = "seedling" | "stalk" | "ripe";
+
+export interface Crop {
+  stage: GrowthStage;
+  /** When the plant reached its current stage. */
+  stageAt: number;
+}
+
+/** How long a plant spends in each stage before growing into the next. */
+export const GROWTH_TIME: Record<Exclude<GrowthStage, "ripe">, number> = {
+  seedling: 8000,
+  stalk: 12000,
+};
+
+const NEXT_STAGE: Record<Exclude<GrowthStage, "ripe">, GrowthStage> = {
+  seedling: "stalk",
+  stalk: "ripe",
+};
+
+export const HARVEST_POINTS = 30;
+
+/** How much more worms want ripe corn, both when spawning and when crawling. */
+export const RIPE_APPEAL = 3;
+
+export const plant = (time: number, stage: GrowthStage = "seedling"): Crop => ({ stage, stageAt: time });
+
+/**
+ * The field starts as stalks, staggered by position so the first plants
+ * don't all ripen on the same tick.
+ */
+export const startingCrop = (row: number, col: number): Crop =>
+  plant(-((row * 7 + col * 3) % 5) * 2000, "stalk");
+
+export function growCrop(crop: Crop, time: number): Crop {
+  let grown = crop;
+  while (grown.stage !== "ripe" && time - grown.stageAt >= GROWTH_TIME[grown.stage]) {
+    grown = plant(grown.stageAt + GROWTH_TIME[grown.stage], NEXT_STAGE[grown.stage]);
+  }
+  return grown;
+}
+
+export const cropAppeal = (crop: Crop | undefined) => (crop?.stage === "ripe" ? RIPE_APPEAL : 1);
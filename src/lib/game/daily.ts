@@ -0,0 +1,38 @@
+// Daily Challenge: everyone playing on the same date gets the same seed. The
+// first run of the day is the scored attempt; later runs are practice.
+
+import { hashSeed } from "@/lib/game/random";
+import { LAYOUTS } from "@/lib/game/layouts";
+
+const STORAGE_KEY = "corn-defender-daily";
+
+type DailyScores = Record<string, number>;
+
+/** UTC date as YYYY-MM-DD, so every time zone is on the same challenge. */
+export function dayKey(date = new Date()) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+export const dailySeed = (day: string) => hashSeed(`daily-${day}`);
+
+export const dailyLayout = (day: string) => LAYOUTS[dailySeed(day) % LAYOUTS.length];
+
+function loadScores(): DailyScores {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+/** Score of the day's scored attempt, or null if it hasn't been played. */
+export function getDailyScore(day: string): number | null {
+  return loadScores()[day] ?? null;
+}
+
+export function saveDailyScore(day: string, score: number) {
+  const scores = loadScores();
+  scores[day] = Math.max(scores[day] ?? 0, score);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(scores));
+}
@@ -0,0 +1,19 @@
+// Day and night take turns on a fixed timer. Nights are dark, so they pay
+// more for every point scored.
+
+export const DAY_LENGTH = 40000;
+export const NIGHT_LENGTH = 20000;
+
+export const NIGHT_SCORE_MULTIPLIER = 1.5;
+
+/** How far the lantern lights up around the pointer, in cells. */
+export const LANTERN_RADIUS = 1.25;
+
+/** Runs always start in daylight. */
+export const isNightAt = (time: number) => time % (DAY_LENGTH + NIGHT_LENGTH) >= DAY_LENGTH;
+
+/** Time until the sun next rises or sets. */
+export function untilDaybreakOrDusk(time: number): number {
+  const phase = time % (DAY_LENGTH + NIGHT_LENGTH);
+  return phase < DAY_LENGTH ? DAY_LENGTH - phase : DAY_LENGTH + NIGHT_LENGTH - phase;
+}
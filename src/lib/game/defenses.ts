@@ -0,0 +1,36 @@
+// Defenses the player buys with points and places on a corn cell mid-run.
+// Each one wears down as it does its job and is gone once it's used up.
+
+export type DefenseType = "fence" | "trap" | "scarecrow";
+
+export interface Defense {
+  type: DefenseType;
+  /** Uses left: bites for a fence, worms for a trap, spawns slipped past for a scarecrow. */
+  durability: number;
+}
+
+export interface DefenseInfo {
+  emoji: string;
+  label: string;
+  description: string;
+  /** Points spent to place one. */
+  cost: number;
+  durability: number;
+}
+
+export const DEFENSES: Record<DefenseType, DefenseInfo> = {
+  fence: { emoji: "🪵", label: "Fence", description: "absorbs the next 3 bites", cost: 40, durability: 3 },
+  trap: { emoji: "🪤", label: "Trap", description: "squashes the first worm to show up", cost: 25, durability: 1 },
+  scarecrow: { emoji: "🎃", label: "Scarecrow", description: "fewer worms spawn on its row", cost: 60, durability: 6 },
+};
+
+export const DEFENSE_TYPES = Object.keys(DEFENSES) as DefenseType[];
+
+/** How much a scarecrow cuts the spawn chance of every cell on its row. */
+export const SCARECROW_SPAWN_SCALE = 0.3;
+
+export const buildDefense = (type: DefenseType): Defense => ({ type, durability: DEFENSES[type].durability });
+
+/** Spends one use, or returns null when the defense is used up. */
+export const wearDefense = (defense: Defense): Defense | null =>
+  defense.durability > 1 ? { ...defense, durability: defense.durability - 1 } : null;
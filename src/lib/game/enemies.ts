@@ -0,0 +1,86 @@
+// Enemy rules. Every enemy is still a Worm in the engine; its type decides how
+// many taps it takes, how long it lives, what it is worth and what it eats.
+
+export type EnemyType = "worm" | "fast" | "beetle" | "splitter" | "hatchling" | "golden" | "burrower";
+
+/**
+ * How an enemy gets around: crawlers follow a planned path toward healthy
+ * corn and nibble at each stop, hoppers jump to a random neighbor.
+ */
+export type Movement = "none" | "crawl" | "hop";
+
+/** How squashing an enemy sounds: a pitch sweep over a short pop. */
+export interface SquashSound {
+  wave: "sine" | "square" | "triangle" | "sawtooth";
+  /** Pitch the sweep starts and ends on, in Hz. */
+  from: number;
+  to: number;
+  /** Seconds. */
+  length: number;
+  /** Sweeps played back to back; defaults to 1. */
+  repeats?: number;
+}
+
+export interface EnemyStats {
+  hp: number;
+  /** Multiplies the configured worm lifetime. */
+  lifetimeScale: number;
+  /** Base points, multiplied by the combo. */
+  points: number;
+  /** Corn health eaten when it outlives its lifetime. 0 means it flees instead. */
+  damage: number;
+  /** Relative spawn chance once unlocked; 0 never spawns on its own. */
+  weight: number;
+  minLevel: number;
+  movement: Movement;
+  /** Time spent at each stop before moving on. */
+  moveInterval: number;
+  squash: SquashSound;
+}
+
+const STILL = { movement: "none", moveInterval: 0 } as const;
+
+export const ENEMY_STATS: Record<EnemyType, EnemyStats> = {
+  worm: {
+    hp: 1, lifetimeScale: 1, points: 10, damage: 1, weight: 10, minLevel: 1, movement: "crawl", moveInterval: 1200,
+    squash: { wave: "sine", from: 600, to: 150, length: 0.15 },
+  },
+  fast: {
+    hp: 1, lifetimeScale: 0.5, points: 15, damage: 1, weight: 3, minLevel: 2, movement: "crawl", moveInterval: 600,
+    squash: { wave: "sine", from: 900, to: 300, length: 0.08 },
+  },
+  golden: {
+    hp: 1, lifetimeScale: 0.4, points: 50, damage: 0, weight: 1, minLevel: 2, ...STILL,
+    squash: { wave: "triangle", from: 1047, to: 1568, length: 0.2 },
+  },
+  beetle: {
+    hp: 3, lifetimeScale: 1.5, points: 25, damage: 2, weight: 2, minLevel: 3, movement: "crawl", moveInterval: 2000,
+    squash: { wave: "square", from: 300, to: 80, length: 0.2 },
+  },
+  splitter: {
+    hp: 1, lifetimeScale: 1, points: 10, damage: 1, weight: 2, minLevel: 4, ...STILL,
+    squash: { wave: "sine", from: 500, to: 150, length: 0.1, repeats: 2 },
+  },
+  hatchling: {
+    hp: 1, lifetimeScale: 0.8, points: 5, damage: 1, weight: 0, minLevel: 1, movement: "crawl", moveInterval: 1000,
+    squash: { wave: "sine", from: 1100, to: 500, length: 0.08 },
+  },
+  burrower: {
+    hp: 1, lifetimeScale: 1.5, points: 20, damage: 1, weight: 2, minLevel: 5, movement: "hop", moveInterval: 1000,
+    squash: { wave: "triangle", from: 400, to: 100, length: 0.18 },
+  },
+};
+
+export const ENEMY_TYPES = Object.keys(ENEMY_STATS) as EnemyType[];
+
+/** How many cells ahead a crawler plans its route. */
+export const CRAWL_PATH_LENGTH = 2;
+
+/** Corn a crawler nibbles at each stop. Nibbling never kills a plant outright. */
+export const CRAWL_NIBBLE = 1;
+
+/** How many hatchlings a splitter breaks into. */
+export const SPLIT_COUNT = 2;
+
+export const spawnWeight = (type: EnemyType, difficulty: number) =>
+  difficulty >= ENEMY_STATS[type].minLevel ? ENEMY_STATS[type].weight : 0;
@@ -0,0 +1,940 @@
+// Framework-free game rules. The engine never reads the wall clock: time only
+// moves forward through step(dt) and randomness comes from the seeded rngState,
+// so a run can be replayed or unit-tested.
+
+import { nextRandom, pick, pickWeighted, randomSeed } from "@/lib/game/random";
+import { CLASSIC_LAYOUT, FieldLayout, getCell, getLayoutSize } from "@/lib/game/layouts";
+import { checkObjective, Objective, Outcome } from "@/lib/game/objectives";
+import {
+  ENEMY_STATS, ENEMY_TYPES, CRAWL_NIBBLE, CRAWL_PATH_LENGTH, SPLIT_COUNT, spawnWeight, EnemyType,
+} from "@/lib/game/enemies";
+import {
+  BOSS_SPAWN_SLOWDOWN, BOSS_WIDTH, PHASE_TIMING, RAMPAGE_SPAWNS,
+  bossAttackCells, bossMaxHp, bossPhase, bossPositions, bossReward, nextBossLevel, Boss,
+} from "@/lib/game/boss";
+import { HARVEST_POINTS, cropAppeal, growCrop, plant, startingCrop, Crop } from "@/lib/game/crops";
+import { createAdaptive, lifetimeScale, observe, spawnScale, AdaptiveState } from "@/lib/game/adaptive";
+import { FIRST_WAVE_DELAY, WAVE_SETS, waveAt, WaveDefinition, WaveSet } from "@/lib/game/waves";
+import { DEFENSES, SCARECROW_SPAWN_SCALE, buildDefense, wearDefense, Defense, DefenseType } from "@/lib/game/defenses";
+import {
+  FOG_COVERAGE, RAIN_SPAWN_SCALE, WATER_DURATION, WEATHER, WEATHER_DURATION, WIND_DIRECTIONS, clearSkies, forecast, WeatherState,
+} from "@/lib/game/weather";
+import { NIGHT_SCORE_MULTIPLIER, isNightAt } from "@/lib/game/daynight";
+import { POWERUPS, POWERUP_TYPES, ActiveEffect, PowerUpApi, PowerUpType } from "@/lib/game/powerups";
+import { newPlayerStats, PlayerStats } from "@/lib/game/coop";
+
+export interface Worm {
+  id: number;
+  type: EnemyType;
+  row: number;
+  col: number;
+  createdAt: number;
+  /** Taps left before it is squashed. */
+  hp: number;
+  movedAt: number;
+  /** Cell it moved from last, for the crawl animation. */
+  from: [number, number] | null;
+  /** Cells a crawler will visit next, in order. */
+  path: [number, number][];
+}
+
+export interface CornHealth {
+  [key: string]: number;
+}
+
+export interface PowerUp {
+  id: number;
+  type: PowerUpType;
+  /** Null when banked: it waits in the inventory until used. */
+  expiresAt: number | null;
+  /** Co-op only: who claimed it, or null while it's up for grabs. */
+  owner?: number | null;
+  /** Co-op only: the cell an unclaimed power-up waits on. */
+  cell?: [number, number];
+}
+
+/** Whether uncollected power-ups time out or stay banked until used. */
+export type PowerUpRule = "expires" | "bank";
+
+export interface GameConfig {
+  layout: FieldLayout;
+  startingLives: number;
+  cornMaxHealth: number;
+  wormLifetime: number;
+  powerUpSpawnInterval: number;
+  powerUpLifetime: number;
+  /** Total power-ups the inventory holds, across all slots. */
+  maxPowerUps: number;
+  powerUpRule: PowerUpRule;
+  shieldDuration: number;
+  fertilizerHeal: number;
+  startingLevel: number;
+  /** Decides what spawns, how often and where. */
+  waves: WaveSet;
+  /** How much faster than the wave's own pace worms spawn; 2 halves every interval. */
+  spawnRate: number;
+  /** Spawns never come closer together than this, whatever the wave says. */
+  spawnIntervalFloor: number;
+  scoreMultiplier: number;
+  /** Tunes spawn rate and worm lifetime to how the player is doing. */
+  adaptive: boolean;
+  /** Rolls rain, drought, wind and fog over the field. */
+  weather: boolean;
+  /** Alternates day with darker, better-paying nights. */
+  dayNight: boolean;
+  /** Levels between boss fights; 0 turns bosses off. */
+  bossEvery: number;
+  /** Players sharing the field; more than one is co-op. */
+  players: number;
+  /** Ends the run as won or lost; endless runs have none. */
+  objective?: Objective;
+}
+
+/** Fixed step the live game and replays advance the engine by. */
+export const TICK_MS = 100;
+
+export const DEFAULT_CONFIG: GameConfig = {
+  layout: CLASSIC_LAYOUT,
+  startingLives: 5,
+  cornMaxHealth: 3,
+  wormLifetime: 3000,
+  powerUpSpawnInterval: 12000, // every 12s
+  powerUpLifetime: 10000, // expires after 10s
+  maxPowerUps: 3,
+  powerUpRule: "expires",
+  shieldDuration: 5000,
+  fertilizerHeal: 2,
+  startingLevel: 1,
+  waves: WAVE_SETS[0],
+  spawnRate: 1,
+  spawnIntervalFloor: 600,
+  scoreMultiplier: 1,
+  adaptive: false,
+  weather: false,
+  dayNight: false,
+  bossEvery: 5,
+  players: 1,
+};
+
+export type GameEvent =
+  | { type: "wormSpawned"; worm: Worm }
+  | { type: "ripened"; row: number; col: number }
+  | { type: "harvest"; row: number; col: number; points: number }
+  | { type: "waveStarted"; wave: number }
+  | { type: "waveEnded"; wave: number }
+  | { type: "squash"; worm: Worm; combo: number; points: number }
+  | { type: "hit"; worm: Worm }
+  | { type: "hop"; worm: Worm }
+  | { type: "crawl"; worm: Worm }
+  | { type: "fled"; worms: Worm[] }
+  | { type: "damage"; worms: Worm[] }
+  | { type: "powerUpSpawned"; powerUp: PowerUp }
+  | { type: "powerUpUsed"; powerUp: PowerUp }
+  | { type: "powerUpClaimed"; powerUp: PowerUp; player: number }
+  | { type: "effectEnded"; effect: ActiveEffect }
+  | { type: "attacked"; worms: Worm[] }
+  | { type: "nightFell" }
+  | { type: "dayBroke" }
+  | { type: "weatherChanged"; weather: WeatherState }
+  | { type: "gust"; worms: Worm[] }
+  | { type: "wilted"; cells: [number, number][] }
+  | { type: "watered"; row: number; col: number }
+  | { type: "defensePlaced"; row: number; col: number; defense: Defense }
+  | { type: "defenseUsed"; row: number; col: number; defense: Defense; broken: boolean; worm?: Worm }
+  | { type: "bossSpawned"; boss: Boss }
+  | { type: "bossHit"; boss: Boss }
+  | { type: "bossPhase"; boss: Boss }
+  | { type: "bossAttack"; boss: Boss; cells: [number, number][]; blocked: boolean }
+  | { type: "bossDefeated"; boss: Boss; points: number }
+  | { type: "gameOver"; outcome: Outcome };
+
+export type GameAction = (
+  | { type: "squash"; wormId: number }
+  | { type: "usePowerUp"; powerUpId: number }
+  | { type: "claimPowerUp"; powerUpId: number }
+  | { type: "hitBoss" }
+  | { type: "harvest"; row: number; col: number }
+  | { type: "placeDefense"; defense: DefenseType; row: number; col: number }
+  | { type: "water"; row: number; col: number }
+  | { type: "receiveWorms"; count: number }
+) & {
+  /** Who acted, in co-op; solo play leaves it out and counts as player 0. */
+  player?: number;
+};
+
+export interface EngineState {
+  config: GameConfig;
+  seed: number;
+  rngState: number;
+  time: number;
+  worms: Worm[];
+  cornHealth: CornHealth;
+  /** Growth of every corn cell, keyed like cornHealth. */
+  crops: Record<string, Crop>;
+  score: number;
+  lives: number;
+  combo: number;
+  squashed: number;
+  /** What each player sharing the field has done. */
+  players: PlayerStats[];
+  difficulty: number;
+  powerUps: PowerUp[];
+  /** Timed power-ups that are still running. */
+  effects: ActiveEffect[];
+  /** Placed defenses, keyed like cornHealth. */
+  defenses: Record<string, Defense>;
+  boss: Boss | null;
+  nextBossLevel: number;
+  bossesDefeated: number;
+  /** The wave in progress, or the one coming up while resting. */
+  wave: number;
+  waveSpawns: number;
+  resting: boolean;
+  waveStartedAt: number;
+  /** Time until the next spawn, or until the next wave starts while resting. */
+  spawnTimer: number;
+  /** Only tracked when the config turns adaptive difficulty on. */
+  adaptive: AdaptiveState | null;
+  /** Only tracked when the config turns weather on. */
+  weather: WeatherState | null;
+  /** When each watered corn cell dries out again. */
+  watered: Record<string, number>;
+  powerUpTimer: number;
+  nextWormId: number;
+  nextPowerUpId: number;
+  gameOver: boolean;
+  outcome: Outcome | null;
+  /** Events produced by the last step or dispatch, for sounds and effects. */
+  events: GameEvent[];
+}
+
+export const cellKey = (row: number, col: number) => `${row}-${col}`;
+
+export const getDifficulty = (score: number, startingLevel = 1) => startingLevel + Math.floor(score / 50);
+
+export const currentWave = (state: EngineState) => waveAt(state.config.waves, state.wave);
+
+/** Whether a player may use a power-up: solo ones are anyone's, co-op ones their claimer's. */
+export const ownsPowerUp = (powerUp: PowerUp, player = 0) => powerUp.owner === undefined || powerUp.owner === player;
+
+/** The power-up a player's slot would use next: the one closest to expiring. */
+export function slotPowerUp(state: EngineState, type: PowerUpType, player = 0): PowerUp | undefined {
+  const remaining = (p: PowerUp) => p.expiresAt ?? Infinity;
+  return state.powerUps
+    .filter(p => p.type === type && ownsPowerUp(p, player))
+    .reduce<PowerUp | undefined>((soonest, p) => (!soonest || remaining(p) < remaining(soonest) ? p : soonest), undefined);
+}
+
+export const isNight = (state: EngineState) => state.config.dayNight && isNightAt(state.time);
+
+const runningEffects = (state: EngineState) => state.effects.filter(e => state.time < e.until);
+
+/** Whether a running power-up is keeping nibbles and boss attacks off the field. */
+export const isDamageBlocked = (state: EngineState) =>
+  runningEffects(state).some(e => POWERUPS[e.type].blocksDamage?.(state, e));
+
+// Running power-ups stack on top of the configured multiplier
+const effectScoreMultiplier = (state: EngineState) =>
+  runningEffects(state).reduce((product, e) => product * (POWERUPS[e.type].scoreMultiplier ?? 1), 1);
+
+export function createGame(overrides: Partial<GameConfig> = {}, seed = randomSeed()): EngineState {
+  const config = { ...DEFAULT_CONFIG, ...overrides };
+  const cornHealth: CornHealth = {};
+  const crops: Record<string, Crop> = {};
+  config.layout.cells.forEach((cells, r) => {
+    cells.forEach((cell, c) => {
+      if (cell.kind !== "corn") return;
+      cornHealth[cellKey(r, c)] = Math.min(config.cornMaxHealth, cell.health ?? config.cornMaxHealth);
+      crops[cellKey(r, c)] = startingCrop(r, c);
+    });
+  });
+
+  const [next, rngState] = config.weather ? forecast(seed) : [null, seed];
+
+  return {
+    config,
+    seed,
+    rngState,
+    time: 0,
+    worms: [],
+    cornHealth,
+    crops,
+    score: 0,
+    lives: config.startingLives,
+    combo: 0,
+    squashed: 0,
+    players: Array.from({ length: config.players }, newPlayerStats),
+    difficulty: config.startingLevel,
+    powerUps: [],
+    effects: [],
+    defenses: {},
+    boss: null,
+    nextBossLevel: config.bossEvery > 0 ? nextBossLevel(config.startingLevel, config.bossEvery) : 0,
+    bossesDefeated: 0,
+    wave: 1,
+    waveSpawns: 0,
+    resting: true,
+    waveStartedAt: 0,
+    spawnTimer: FIRST_WAVE_DELAY,
+    adaptive: config.adaptive ? createAdaptive() : null,
+    weather: next && clearSkies(0, next),
+    watered: {},
+    powerUpTimer: config.powerUpSpawnInterval,
+    nextWormId: 0,
+    nextPowerUpId: 0,
+    gameOver: false,
+    outcome: null,
+    events: [],
+  };
+}
+
+export const wormLifetime = (state: EngineState, worm: Worm) =>
+  state.config.wormLifetime * ENEMY_STATS[worm.type].lifetimeScale * lifetimeScale(state.adaptive);
+
+/** Living corn cells orthogonally next to a cell. */
+function neighbors(state: EngineState, row: number, col: number): [number, number][] {
+  return ([[row - 1, col], [row + 1, col], [row, col - 1], [row, col + 1]] as [number, number][])
+    .filter(([r, c]) => state.cornHealth[cellKey(r, c)] > 0);
+}
+
+/** How much a worm wants a cell: healthy and ripe corn is the most tempting. */
+const cornValue = (state: EngineState, row: number, col: number) =>
+  state.cornHealth[cellKey(row, col)] * cropAppeal(state.crops[cellKey(row, col)]);
+
+// Greedy route toward the most tempting neighboring corn, never doubling back
+function planPath(state: EngineState, row: number, col: number): [[number, number][], number] {
+  const path: [number, number][] = [];
+  let rngState = state.rngState;
+  let [r, c] = [row, col];
+  const visited = new Set([cellKey(r, c)]);
+  for (let i = 0; i < CRAWL_PATH_LENGTH; i++) {
+    const options = neighbors(state, r, c).filter(([nr, nc]) => !visited.has(cellKey(nr, nc)));
+    if (options.length === 0) break;
+    const best = Math.max(...options.map(([nr, nc]) => cornValue(state, nr, nc)));
+    const tempting = options.filter(([nr, nc]) => cornValue(state, nr, nc) === best);
+    [[r, c], rngState] = pick(tempting, rngState);
+    visited.add(cellKey(r, c));
+    path.push([r, c]);
+  }
+  return [path, rngState];
+}
+
+function addWorm(state: EngineState, type: EnemyType, row: number, col: number, events: GameEvent[]): EngineState {
+  const [path, rngState] = ENEMY_STATS[type].movement === "crawl" ? planPath(state, row, col) : [[], state.rngState];
+  const worm: Worm = {
+    id: state.nextWormId, type, row, col,
+    createdAt: state.time, hp: ENEMY_STATS[type].hp, movedAt: state.time, from: null, path,
+  };
+  events.push({ type: "wormSpawned", worm });
+  const next = { ...state, rngState, worms: [...state.worms, worm], nextWormId: state.nextWormId + 1 };
+  return state.effects.reduce(
+    (acc, effect) => POWERUPS[effect.type].onWormSpawn?.(acc, effect, worm, powerUpApi(events)) ?? acc,
+    next,
+  );
+}
+
+// Spends one use of the defense on a cell, removing it once it's used up
+function wearAt(state: EngineState, key: string, events: GameEvent[], worm?: Worm): EngineState {
+  const defense = state.defenses[key];
+  const worn = wearDefense(defense);
+  const [row, col] = key.split("-").map(Number);
+  events.push({ type: "defenseUsed", row, col, defense, broken: !worn, worm });
+  const defenses = { ...state.defenses };
+  if (worn) defenses[key] = worn;
+  else delete defenses[key];
+  return { ...state, defenses };
+}
+
+// Narrows the spawnable corn down to what the wave's target rule goes for
+function targetCells(state: EngineState, cells: [number, number][], wave: WaveDefinition): [number, number][] {
+  const health = ([r, c]: [number, number]) => state.cornHealth[cellKey(r, c)];
+  switch (wave.target ?? "weighted") {
+    case "weighted":
+      return cells;
+    case "healthiest": {
+      const best = Math.max(...cells.map(health));
+      return cells.filter(cell => health(cell) === best);
+    }
+    case "weakest": {
+      const worst = Math.min(...cells.map(health));
+      return cells.filter(cell => health(cell) === worst);
+    }
+    case "edges": {
+      const { rows, cols } = getLayoutSize(state.config.layout);
+      const edges = cells.filter(([r, c]) => r === 0 || c === 0 || r === rows - 1 || c === cols - 1);
+      return edges.length > 0 ? edges : cells;
+    }
+  }
+}
+
+function spawnWorm(state: EngineState, wave: WaveDefinition, events: GameEvent[]): EngineState {
+  const { layout } = state.config;
+  const alive = Object.keys(state.cornHealth)
+    .filter(k => state.cornHealth[k] > 0)
+    .map(k => k.split("-").map(Number) as [number, number])
+    .filter(([r, c]) => (getCell(layout, r, c).spawnWeight ?? 1) > 0);
+  if (alive.length === 0) return state;
+
+  // Scarecrows put worms off their whole row, and wear down whenever one comes anyway
+  const scarecrows = Object.keys(state.defenses).filter(k => state.defenses[k].type === "scarecrow");
+  const guardedRow = (r: number) => scarecrows.find(k => Number(k.split("-")[0]) === r);
+
+  const targets = targetCells(state, alive, wave);
+  const weights = targets.map(([r, c]) =>
+    (getCell(layout, r, c).spawnWeight ?? 1) * cropAppeal(state.crops[cellKey(r, c)]) * (guardedRow(r) ? SCARECROW_SPAWN_SCALE : 1),
+  );
+  const [[row, col], cellRng] = pickWeighted(targets, weights, state.rngState);
+  const typeWeights = ENEMY_TYPES.map(t => (wave.enemies ? wave.enemies[t] ?? 0 : spawnWeight(t, state.difficulty)));
+  const [type, rngState] = pickWeighted(ENEMY_TYPES, typeWeights, cellRng);
+  const scarecrow = guardedRow(row);
+  const next = scarecrow ? wearAt(state, scarecrow, events) : state;
+  return addWorm({ ...next, rngState }, type, row, col, events);
+}
+
+// Spawns the next burst of the current wave, starting it if we were resting
+function spawnWave(state: EngineState, events: GameEvent[]): EngineState {
+  const wave = currentWave(state);
+  let next = state;
+  if (next.resting) {
+    events.push({ type: "waveStarted", wave: next.wave });
+    next = { ...next, resting: false, waveSpawns: 0, waveStartedAt: next.time };
+  }
+
+  for (let i = 0; i < (wave.burst ?? 1); i++) next = spawnWorm(next, wave, events);
+  const waveSpawns = next.waveSpawns + 1;
+  const rain = next.weather?.current === "rain" ? RAIN_SPAWN_SCALE : 1;
+  const pace = (wave.interval / next.config.spawnRate) * spawnScale(next.adaptive) * rain;
+  const interval = Math.max(next.config.spawnIntervalFloor, pace);
+  if (waveSpawns < wave.count) {
+    return { ...next, waveSpawns, spawnTimer: next.spawnTimer + interval * (next.boss ? BOSS_SPAWN_SLOWDOWN : 1) };
+  }
+
+  events.push({ type: "waveEnded", wave: next.wave });
+  return { ...next, waveSpawns, resting: true, wave: next.wave + 1, spawnTimer: next.spawnTimer + interval + wave.rest };
+}
+
+function hop(state: EngineState, worm: Worm, events: GameEvent[]): [Worm, EngineState] {
+  const options = neighbors(state, worm.row, worm.col);
+  if (options.length === 0) return [{ ...worm, movedAt: state.time }, state];
+
+  const [[row, col], rngState] = pick(options, state.rngState);
+  const moved: Worm = { ...worm, row, col, from: [worm.row, worm.col], movedAt: state.time };
+  events.push({ type: "hop", worm: moved });
+  return [moved, { ...state, rngState }];
+}
+
+function crawl(state: EngineState, worm: Worm, events: GameEvent[]): [Worm, EngineState] {
+  let { path } = worm;
+  let next = state;
+  // Re-plan if the next stop has been eaten in the meantime
+  if (path.length > 0 && !(state.cornHealth[cellKey(...path[0])] > 0)) {
+    let rngState: number;
+    [path, rngState] = planPath(state, worm.row, worm.col);
+    next = { ...state, rngState };
+  }
+  if (path.length === 0) return [{ ...worm, path, movedAt: state.time }, next];
+
+  const [[row, col], ...rest] = path;
+  const moved: Worm = { ...worm, row, col, from: [worm.row, worm.col], path: rest, movedAt: state.time };
+  events.push({ type: "crawl", worm: moved });
+
+  const key = cellKey(row, col);
+  if (!isDamageBlocked(next) && next.cornHealth[key] > 1) {
+    next = { ...next, cornHealth: { ...next.cornHealth, [key]: Math.max(1, next.cornHealth[key] - CRAWL_NIBBLE) } };
+  }
+  return [moved, next];
+}
+
+// Crawlers and hoppers move on after each stop
+function moveWorms(state: EngineState, events: GameEvent[]): EngineState {
+  let next = state;
+  state.worms.forEach(worm => {
+    const { movement, moveInterval } = ENEMY_STATS[worm.type];
+    if (movement === "none" || next.time - worm.movedAt < moveInterval) return;
+    let moved: Worm;
+    [moved, next] = movement === "hop" ? hop(next, worm, events) : crawl(next, worm, events);
+    next = { ...next, worms: next.worms.map(w => (w.id === worm.id ? moved : w)) };
+  });
+  return next;
+}
+
+// A squashed splitter breaks into hatchlings on nearby corn
+function split(state: EngineState, worm: Worm, events: GameEvent[]): EngineState {
+  let next = state;
+  for (let i = 0; i < SPLIT_COUNT; i++) {
+    const options = neighbors(next, worm.row, worm.col);
+    if (options.length === 0) options.push([worm.row, worm.col]);
+    const [[row, col], rngState] = pick(options, next.rngState);
+    next = addWorm({ ...next, rngState }, "hatchling", row, col, events);
+  }
+  return next;
+}
+
+function spawnPowerUp(state: EngineState, events: GameEvent[]): EngineState {
+  const { config } = state;
+  if (state.powerUps.length >= config.maxPowerUps) return state;
+
+  const [type, typeRng] = pickWeighted(POWERUP_TYPES, POWERUP_TYPES.map(t => POWERUPS[t].weight), state.rngState);
+  const expiresAt = config.powerUpRule === "bank" ? null : state.time + config.powerUpLifetime;
+  let powerUp: PowerUp = { id: state.nextPowerUpId, type, expiresAt };
+  let rngState = typeRng;
+
+  // In co-op it lands on the field, and whoever gets there first claims it
+  if (config.players > 1) {
+    const alive = Object.keys(state.cornHealth)
+      .filter(k => state.cornHealth[k] > 0)
+      .map(k => k.split("-").map(Number) as [number, number]);
+    if (alive.length === 0) return state;
+    const [cell, cellRng] = pick(alive, rngState);
+    powerUp = { ...powerUp, owner: null, cell };
+    rngState = cellRng;
+  }
+  events.push({ type: "powerUpSpawned", powerUp });
+  return { ...state, rngState, powerUps: [...state.powerUps, powerUp], nextPowerUpId: state.nextPowerUpId + 1 };
+}
+
+// Widest run of corn the boss fits on, narrowing on small or broken fields
+function bossSpots(state: EngineState): [[number, number][], number] {
+  for (let width = BOSS_WIDTH; width > 0; width--) {
+    const spots = bossPositions(state.config.layout, width);
+    if (spots.length > 0) return [spots, width];
+  }
+  return [[], 0];
+}
+
+// A boss arrives each time the level reaches the next boss level
+function maybeSpawnBoss(state: EngineState, events: GameEvent[]): EngineState {
+  const { bossEvery } = state.config;
+  if (bossEvery <= 0 || state.boss || state.difficulty < state.nextBossLevel) return state;
+
+  const next = { ...state, nextBossLevel: nextBossLevel(state.difficulty, bossEvery) };
+  const [spots, width] = bossSpots(next);
+  if (spots.length === 0) return next;
+
+  const [[row, col], rngState] = pick(spots, next.rngState);
+  const number = next.bossesDefeated + 1;
+  const boss: Boss = {
+    number, row, col, width, hp: bossMaxHp(number), maxHp: bossMaxHp(number), phase: 1,
+    nextAttackAt: next.time + PHASE_TIMING[1].attackInterval,
+    nextMoveAt: next.time + PHASE_TIMING[1].moveInterval,
+  };
+  events.push({ type: "bossSpawned", boss });
+  return { ...next, rngState, boss };
+}
+
+function moveBoss(state: EngineState, boss: Boss): EngineState {
+  const [spots] = bossSpots(state);
+  const others = spots.filter(([r, c]) => r !== boss.row || c !== boss.col);
+  const nextMoveAt = state.time + PHASE_TIMING[boss.phase].moveInterval;
+  if (others.length === 0) return { ...state, boss: { ...boss, nextMoveAt } };
+
+  const [[row, col], rngState] = pick(others, state.rngState);
+  return { ...state, rngState, boss: { ...boss, row, col, nextMoveAt } };
+}
+
+// Each attack bites every targeted corn and costs a life unless shielded
+function bossAttack(state: EngineState, boss: Boss, events: GameEvent[]): EngineState {
+  const cells = bossAttackCells(boss, state.config.layout);
+  const blocked = isDamageBlocked(state);
+  const attacked = { ...boss, nextAttackAt: state.time + PHASE_TIMING[boss.phase].attackInterval };
+  events.push({ type: "bossAttack", boss: attacked, cells, blocked });
+  let next: EngineState = { ...state, boss: attacked };
+  if (blocked) return next;
+
+  const cornHealth = { ...next.cornHealth };
+  cells.forEach(([r, c]) => {
+    const key = cellKey(r, c);
+    cornHealth[key] = Math.max(0, cornHealth[key] - 1);
+  });
+  next = { ...next, cornHealth, lives: Math.max(0, next.lives - 1), combo: 0 };
+
+  // Rampaging bosses spit hatchlings onto whatever corn is left nearby
+  if (boss.phase === 3) {
+    const alive = cells.filter(([r, c]) => cornHealth[cellKey(r, c)] > 0);
+    for (let i = 0; i < RAMPAGE_SPAWNS && alive.length > 0; i++) {
+      const [[row, col], rngState] = pick(alive, next.rngState);
+      next = addWorm({ ...next, rngState }, "hatchling", row, col, events);
+    }
+  }
+  return next;
+}
+
+function bossTurn(state: EngineState, events: GameEvent[]): EngineState {
+  let next = state;
+  if (next.boss && next.time >= next.boss.nextMoveAt) next = moveBoss(next, next.boss);
+  if (next.boss && next.time >= next.boss.nextAttackAt) next = bossAttack(next, next.boss, events);
+  return next;
+}
+
+function growCrops(state: EngineState, events: GameEvent[]): EngineState {
+  let crops = state.crops;
+  Object.entries(state.crops).forEach(([key, crop]) => {
+    if (!(state.cornHealth[key] > 0)) return;
+    const grown = growCrop(crop, state.time);
+    if (grown === crop) return;
+    crops = { ...crops, [key]: grown };
+    if (grown.stage === "ripe") {
+      const [row, col] = key.split("-").map(Number);
+      events.push({ type: "ripened", row, col });
+    }
+  });
+  return crops === state.crops ? state : { ...state, crops };
+}
+
+function expireWorms(state: EngineState, events: GameEvent[]): EngineState {
+  const expired = state.worms.filter(w => state.time - w.createdAt > wormLifetime(state, w));
+  if (expired.length === 0) return state;
+
+  const worms = state.worms.filter(w => !expired.includes(w));
+  const fled = expired.filter(w => ENEMY_STATS[w.type].damage === 0);
+  if (fled.length > 0) events.push({ type: "fled", worms: fled });
+
+  // Every bug that gets through costs a life; tougher ones eat more corn.
+  // Running power-ups get the first say in which ones actually bite, then
+  // fences take whatever bites are left on their cells.
+  let next: EngineState = { ...state, worms };
+  const biters = state.effects
+    .reduce((acc, effect) => POWERUPS[effect.type].onDamage?.(state, effect, acc) ?? acc, expired.filter(w => !fled.includes(w)))
+    .filter(w => {
+      const key = cellKey(w.row, w.col);
+      if (next.defenses[key]?.type !== "fence") return true;
+      next = wearAt(next, key, events, w);
+      return false;
+    });
+  if (biters.length === 0) return next;
+
+  // Eaten ripe corn loses its ears and has to ripen again
+  const cornHealth = { ...next.cornHealth };
+  const crops = { ...next.crops };
+  biters.forEach(w => {
+    const key = cellKey(w.row, w.col);
+    cornHealth[key] = Math.max(0, cornHealth[key] - ENEMY_STATS[w.type].damage);
+    if (crops[key].stage === "ripe") crops[key] = plant(state.time, "stalk");
+  });
+  events.push({ type: "damage", worms: biters });
+
+  return { ...next, cornHealth, crops, lives: Math.max(0, next.lives - biters.length), combo: 0 };
+}
+
+// Traps squash the first worm that spawns or crawls onto their cell
+function springTraps(state: EngineState, events: GameEvent[]): EngineState {
+  let next = state;
+  state.worms.forEach(worm => {
+    const key = cellKey(worm.row, worm.col);
+    if (next.defenses[key]?.type !== "trap") return;
+    next = wearAt(next, key, events, worm);
+    next = addScore(
+      { ...next, worms: next.worms.filter(w => w.id !== worm.id), squashed: next.squashed + 1 },
+      ENEMY_STATS[worm.type].points,
+    );
+  });
+  return next;
+}
+
+// Rolls the weather over once a spell ends and forecasts the one after
+function changeWeather(state: EngineState, events: GameEvent[]): EngineState {
+  const { weather } = state;
+  if (!weather || state.time < weather.endsAt) return state;
+
+  const current = weather.next;
+  const [next, forecastRng] = forecast(state.rngState);
+  const [wind, windRng] = pick(WIND_DIRECTIONS, forecastRng);
+  let rngState = windRng;
+  const fogged: string[] = [];
+  if (current === "fog") {
+    Object.keys(state.cornHealth).forEach(key => {
+      let roll: number;
+      [roll, rngState] = nextRandom(rngState);
+      if (roll < FOG_COVERAGE) fogged.push(key);
+    });
+  }
+
+  const { interval } = WEATHER[current];
+  const changed: WeatherState = {
+    current, next, wind, fogged,
+    endsAt: weather.endsAt + WEATHER_DURATION,
+    actsAt: interval ? state.time + interval : Infinity,
+  };
+  events.push({ type: "weatherChanged", weather: changed });
+  return { ...state, rngState, weather: changed };
+}
+
+// Rain regrows damaged corn, drought wilts whatever isn't watered, and wind
+// blows worms onto the next corn downwind
+function weatherTurn(state: EngineState, events: GameEvent[]): EngineState {
+  const { weather } = state;
+  if (!weather || state.time < weather.actsAt) return state;
+
+  const next = { ...state, weather: { ...weather, actsAt: weather.actsAt + WEATHER[weather.current].interval } };
+  switch (weather.current) {
+    case "rain": {
+      const { cornMaxHealth } = state.config;
+      const cornHealth = Object.fromEntries(
+        Object.entries(state.cornHealth).map(([k, v]) => [k, v > 0 ? Math.min(cornMaxHealth, v + 1) : v]),
+      );
+      return { ...next, cornHealth };
+    }
+    case "drought": {
+      const cells: [number, number][] = [];
+      const cornHealth = { ...state.cornHealth };
+      Object.keys(cornHealth).forEach(key => {
+        if (cornHealth[key] <= 1 || state.watered[key] > state.time) return;
+        cornHealth[key] -= 1;
+        cells.push(key.split("-").map(Number) as [number, number]);
+      });
+      if (cells.length > 0) events.push({ type: "wilted", cells });
+      return { ...next, cornHealth };
+    }
+    case "wind": {
+      const [dr, dc] = weather.wind;
+      let blown: EngineState = next;
+      const moved: Worm[] = [];
+      state.worms.forEach(worm => {
+        const [row, col] = [worm.row + dr, worm.col + dc];
+        if (!(state.cornHealth[cellKey(row, col)] > 0)) return;
+        let path: [number, number][] = [];
+        let rngState = blown.rngState;
+        if (ENEMY_STATS[worm.type].movement === "crawl") [path, rngState] = planPath(blown, row, col);
+        const gusted: Worm = { ...worm, row, col, from: [worm.row, worm.col], path };
+        moved.push(gusted);
+        blown = { ...blown, rngState, worms: blown.worms.map(w => (w.id === worm.id ? gusted : w)) };
+      });
+      if (moved.length > 0) events.push({ type: "gust", worms: moved });
+      return blown;
+    }
+    default:
+      return next;
+  }
+}
+
+// Ends the run once lives run out or the objective is decided, and lets
+// adaptive difficulty learn from what just happened
+function settle(prev: EngineState, state: EngineState, events: GameEvent[]): EngineState {
+  const next = state.adaptive
+    ? { ...state, adaptive: observe(state.adaptive, events, Math.max(0, prev.lives - state.lives), state.time, w => wormLifetime(state, w)) }
+    : state;
+  const { objective } = next.config;
+  const outcome = next.lives === 0 ? "lost" : objective ? checkObjective(objective, next) : null;
+  if (!outcome) return next;
+
+  events.push({ type: "gameOver", outcome });
+  return { ...next, gameOver: true, outcome };
+}
+
+/** Advances the game clock by `dt` milliseconds. */
+export function step(state: EngineState, dt: number): EngineState {
+  if (state.gameOver) return { ...state, events: [] };
+
+  const events: GameEvent[] = [];
+  let next: EngineState = { ...state, time: state.time + dt, events };
+
+  if (isNight(next) !== isNight(state)) events.push({ type: isNight(next) ? "nightFell" : "dayBroke" });
+  next = runEffects(next, dt, events);
+  next = weatherTurn(changeWeather(next, events), events);
+  next = growCrops(maybeSpawnBoss(next, events), events);
+
+  next.spawnTimer -= dt;
+  while (next.spawnTimer <= 0) next = spawnWave(next, events);
+
+  next.powerUps = next.powerUps.filter(p => p.expiresAt === null || p.expiresAt > next.time);
+  next.powerUpTimer -= dt;
+  while (next.powerUpTimer <= 0) {
+    next = spawnPowerUp(next, events);
+    next.powerUpTimer += next.config.powerUpSpawnInterval;
+  }
+
+  return settle(state, expireWorms(springTraps(moveWorms(bossTurn(next, events), events), events), events), events);
+}
+
+const powerUpApi = (events: GameEvent[]): PowerUpApi => ({
+  events,
+  addScore,
+  damageBoss: (state, amount) => damageBoss(state, amount, events),
+});
+
+// Ticks every running power-up, then winds down the ones whose time is up
+function runEffects(state: EngineState, dt: number, events: GameEvent[]): EngineState {
+  if (state.effects.length === 0) return state;
+  const api = powerUpApi(events);
+  let next = state.effects.reduce((acc, effect) => POWERUPS[effect.type].onTick?.(acc, effect, dt, api) ?? acc, state);
+
+  const ended = next.effects.filter(e => e.until <= next.time);
+  if (ended.length === 0) return next;
+  next = { ...next, effects: next.effects.filter(e => !ended.includes(e)) };
+  ended.forEach(effect => {
+    next = POWERUPS[effect.type].onExpire?.(next, effect, api) ?? next;
+    events.push({ type: "effectEnded", effect });
+  });
+  return next;
+}
+
+function addScore(state: EngineState, points: number): EngineState {
+  const night = isNight(state) ? NIGHT_SCORE_MULTIPLIER : 1;
+  const multiplier = state.config.scoreMultiplier * effectScoreMultiplier(state) * night;
+  const score = state.score + Math.round(points * multiplier);
+  return { ...state, score, difficulty: getDifficulty(score, state.config.startingLevel) };
+}
+
+function squash(state: EngineState, wormId: number, events: GameEvent[]): EngineState {
+  const worm = state.worms.find(w => w.id === wormId);
+  if (!worm) return state;
+
+  if (worm.hp > 1) {
+    const hit = { ...worm, hp: worm.hp - 1 };
+    events.push({ type: "hit", worm: hit });
+    return { ...state, worms: state.worms.map(w => (w === worm ? hit : w)) };
+  }
+
+  const combo = state.combo + 1;
+  const points = ENEMY_STATS[worm.type].points * Math.min(combo, 5);
+  events.push({ type: "squash", worm, combo, points });
+  const next = addScore({ ...state, worms: state.worms.filter(w => w !== worm), combo, squashed: state.squashed + 1 }, points);
+  return worm.type === "splitter" ? split(next, worm, events) : next;
+}
+
+function damageBoss(state: EngineState, amount: number, events: GameEvent[]): EngineState {
+  const { boss } = state;
+  if (!boss) return state;
+
+  const hp = Math.max(0, boss.hp - amount);
+  if (hp === 0) {
+    const reward = bossReward(boss.number);
+    const defeated = { ...boss, hp };
+    events.push({ type: "bossDefeated", boss: defeated, points: reward.points });
+    const { cornMaxHealth } = state.config;
+    const cornHealth = Object.fromEntries(
+      Object.entries(state.cornHealth).map(([k, v]) => [k, v > 0 ? Math.min(cornMaxHealth, v + reward.heal) : v]),
+    );
+    return addScore(
+      { ...state, boss: null, bossesDefeated: state.bossesDefeated + 1, cornHealth, lives: state.lives + reward.lives },
+      reward.points,
+    );
+  }
+
+  const phase = bossPhase(hp, boss.maxHp);
+  const hit = { ...boss, hp, phase };
+  events.push({ type: phase === boss.phase ? "bossHit" : "bossPhase", boss: hit });
+  return { ...state, boss: hit };
+}
+
+// Picks ripe corn for points and replants a fresh seedling in its place
+function harvest(state: EngineState, row: number, col: number, events: GameEvent[]): EngineState {
+  const key = cellKey(row, col);
+  if (state.crops[key]?.stage !== "ripe" || !(state.cornHealth[key] > 0)) return state;
+  if (state.worms.some(w => w.row === row && w.col === col)) return state;
+
+  events.push({ type: "harvest", row, col, points: HARVEST_POINTS });
+  return addScore({
+    ...state,
+    cornHealth: { ...state.cornHealth, [key]: state.config.cornMaxHealth },
+    crops: { ...state.crops, [key]: plant(state.time) },
+  }, HARVEST_POINTS);
+}
+
+// Buys a defense with points and sets it on living corn that doesn't have one yet
+function placeDefense(state: EngineState, type: DefenseType, row: number, col: number, events: GameEvent[]): EngineState {
+  const key = cellKey(row, col);
+  const { cost } = DEFENSES[type];
+  if (!(state.cornHealth[key] > 0) || state.defenses[key] || state.score < cost) return state;
+
+  const defense = buildDefense(type);
+  events.push({ type: "defensePlaced", row, col, defense });
+  return { ...state, score: state.score - cost, defenses: { ...state.defenses, [key]: defense } };
+}
+
+// Worms sent over by an opponent land on random living corn
+function receiveWorms(state: EngineState, count: number, events: GameEvent[]): EngineState {
+  const alive = Object.keys(state.cornHealth)
+    .filter(k => state.cornHealth[k] > 0)
+    .map(k => k.split("-").map(Number) as [number, number]);
+  if (alive.length === 0) return state;
+
+  let next = state;
+  for (let i = 0; i < count; i++) {
+    const [[row, col], rngState] = pick(alive, next.rngState);
+    next = addWorm({ ...next, rngState }, "worm", row, col, events);
+  }
+  events.push({ type: "attacked", worms: next.worms.filter(w => w.id >= state.nextWormId) });
+  return next;
+}
+
+// Watering protects a plant from drought for a while
+function water(state: EngineState, row: number, col: number, events: GameEvent[]): EngineState {
+  const key = cellKey(row, col);
+  if (state.weather?.current !== "drought" || !(state.cornHealth[key] > 0)) return state;
+
+  events.push({ type: "watered", row, col });
+  return { ...state, watered: { ...state.watered, [key]: state.time + WATER_DURATION } };
+}
+
+function activatePowerUp(state: EngineState, powerUpId: number, player: number, events: GameEvent[]): EngineState {
+  const powerUp = state.powerUps.find(p => p.id === powerUpId);
+  if (!powerUp || !ownsPowerUp(powerUp, player)) return state;
+
+  events.push({ type: "powerUpUsed", powerUp });
+  const definition = POWERUPS[powerUp.type];
+  const next = { ...state, powerUps: state.powerUps.filter(p => p !== powerUp) };
+  const effect: ActiveEffect = {
+    type: powerUp.type,
+    until: next.time + (definition.duration?.(next.config) ?? 0),
+    cell: definition.pickCell?.(next) ?? undefined,
+  };
+  const activated = definition.onActivate?.(next, effect, powerUpApi(events)) ?? next;
+  return definition.duration ? { ...activated, effects: [...activated.effects, effect] } : activated;
+}
+
+// The first player to reach an unclaimed power-up takes it off the field
+function claimPowerUp(state: EngineState, powerUpId: number, player: number, events: GameEvent[]): EngineState {
+  const powerUp = state.powerUps.find(p => p.id === powerUpId);
+  if (!powerUp || powerUp.owner !== null || !state.players[player]) return state;
+
+  const claimed: PowerUp = { ...powerUp, owner: player, cell: undefined };
+  events.push({ type: "powerUpClaimed", powerUp: claimed, player });
+  return {
+    ...state,
+    powerUps: state.powerUps.map(p => (p === powerUp ? claimed : p)),
+    players: state.players.map((p, i) => (i === player ? { ...p, powerUps: p.powerUps + 1 } : p)),
+  };
+}
+
+// Credits the points and squashes an action earned to the player who made it
+function credit(prev: EngineState, state: EngineState, player: number): EngineState {
+  const points = Math.max(0, state.score - prev.score);
+  const squashed = state.squashed - prev.squashed;
+  if ((points === 0 && squashed === 0) || !state.players[player]) return state;
+  return {
+    ...state,
+    players: state.players.map((p, i) => (i === player ? { ...p, points: p.points + points, squashed: p.squashed + squashed } : p)),
+  };
+}
+
+function applyAction(state: EngineState, action: GameAction, player: number, events: GameEvent[]): EngineState {
+  switch (action.type) {
+    case "squash":
+      return squash(state, action.wormId, events);
+    case "usePowerUp":
+      return activatePowerUp(state, action.powerUpId, player, events);
+    case "claimPowerUp":
+      return claimPowerUp(state, action.powerUpId, player, events);
+    case "hitBoss":
+      return damageBoss(state, 1, events);
+    case "harvest":
+      return harvest(state, action.row, action.col, events);
+    case "placeDefense":
+      return placeDefense(state, action.defense, action.row, action.col, events);
+    case "water":
+      return water(state, action.row, action.col, events);
+    case "receiveWorms":
+      return receiveWorms(state, action.count, events);
+  }
+}
+
+/** Applies a player action at the current game time. */
+export function dispatch(state: EngineState, action: GameAction): EngineState {
+  if (state.gameOver) return { ...state, events: [] };
+
+  const events: GameEvent[] = [];
+  const base = { ...state, events };
+  const player = action.player ?? 0;
+  return settle(state, credit(base, applyAction(base, action, player, events), player), events);
+}
@@ -0,0 +1,123 @@
+// Field layouts as data. Built-in layouts are written as text maps where
+// "#" is a corn cell, "o" a rock and "." a hole with nothing planted.
+
+export type CellKind = "corn" | "empty" | "rock";
+
+export const CELL_KINDS: CellKind[] = ["corn", "empty", "rock"];
+
+export const MAX_LAYOUT_SIZE = 8;
+
+export interface LayoutCell {
+  kind: CellKind;
+  /** Starting corn health; defaults to the game's cornMaxHealth. */
+  health?: number;
+  /** Relative chance of worms spawning here; defaults to 1. */
+  spawnWeight?: number;
+}
+
+export interface FieldLayout {
+  id: string;
+  name: string;
+  cells: LayoutCell[][];
+}
+
+const MAP_CELLS: Record<string, CellKind> = {
+  "#": "corn",
+  ".": "empty",
+  "o": "rock",
+};
+
+export function parseLayout(id: string, name: string, map: string[]): FieldLayout {
+  const cols = Math.max(...map.map(line => line.length));
+  return {
+    id,
+    name,
+    cells: map.map(line =>
+      Array.from({ length: cols }, (_, c) => ({ kind: MAP_CELLS[line[c]] ?? "empty" })),
+    ),
+  };
+}
+
+export const getLayoutSize = (layout: FieldLayout) => ({
+  rows: layout.cells.length,
+  cols: Math.max(0, ...layout.cells.map(row => row.length)),
+});
+
+export const getCell = (layout: FieldLayout, row: number, col: number): LayoutCell =>
+  layout.cells[row]?.[col] ?? { kind: "empty" };
+
+export function resizeLayout(layout: FieldLayout, rows: number, cols: number): FieldLayout {
+  return {
+    ...layout,
+    cells: Array.from({ length: rows }, (_, r) =>
+      Array.from({ length: cols }, (_, c) => layout.cells[r]?.[c] ?? { kind: "corn" as CellKind }),
+    ),
+  };
+}
+
+const isCount = (value: unknown, max: number) =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= max;
+
+/** Checks untrusted JSON (e.g. an imported file) and returns it as a layout. */
+export function validateLayout(data: unknown): FieldLayout {
+  const layout = data as FieldLayout;
+  if (!layout || typeof layout !== "object") throw new Error("Layout must be a JSON object");
+  if (typeof layout.id !== "string" || typeof layout.name !== "string") {
+    throw new Error("Layout needs a string id and name");
+  }
+  const { cells } = layout;
+  if (!Array.isArray(cells) || cells.length === 0 || cells.length > MAX_LAYOUT_SIZE) {
+    throw new Error(`Layout needs 1-${MAX_LAYOUT_SIZE} rows of cells`);
+  }
+  cells.forEach((row, r) => {
+    if (!Array.isArray(row) || row.length === 0 || row.length > MAX_LAYOUT_SIZE) {
+      throw new Error(`Row ${r + 1} needs 1-${MAX_LAYOUT_SIZE} cells`);
+    }
+    row.forEach((cell, c) => {
+      const where = `Cell ${r + 1},${c + 1}`;
+      if (!CELL_KINDS.includes(cell?.kind)) throw new Error(`${where} has an unknown kind`);
+      if (cell.health !== undefined && !isCount(cell.health, 99)) throw new Error(`${where} has an invalid health`);
+      if (cell.spawnWeight !== undefined && !isCount(cell.spawnWeight, 99)) {
+        throw new Error(`${where} has an invalid spawn weight`);
+      }
+    });
+  });
+  // The field is a rows × cols grid, so ragged rows would leave holes in it
+  if (cells.some(row => row.length !== cells[0].length)) throw new Error("Every row needs the same number of cells");
+  return layout;
+}
+
+export const CLASSIC_LAYOUT = parseLayout("classic", "Classic", [
+  "#####",
+  "#####",
+  "#####",
+]);
+
+export const LAYOUTS: FieldLayout[] = [
+  CLASSIC_LAYOUT,
+  parseLayout("pond", "Pond", [
+    "#####",
+    "##.##",
+    "#####",
+  ]),
+  parseLayout("cross", "Crossroads", [
+    ".###.",
+    "#####",
+    "#####",
+    ".###.",
+  ]),
+  parseLayout("terraces", "Terraces", [
+    "###...",
+    "#####.",
+    "######",
+    ".#####",
+  ]),
+  parseLayout("big", "Big Field", [
+    "######",
+    "######",
+    "######",
+    "######",
+  ]),
+];
+
+export const getLayout = (id: string) => LAYOUTS.find(l => l.id === id) ?? CLASSIC_LAYOUT;
@@ -0,0 +1,71 @@
+// Win/lose conditions for a run. The engine checks the configured objective
+// after every step and action, so campaign results replay like anything else.
+
+import type { EngineState } from "@/lib/game/engine";
+
+export type Objective =
+  | { type: "survive"; seconds: number }
+  | { type: "squash"; count: number; timeLimit?: number }
+  | { type: "protect"; corn: number; seconds: number }
+  | { type: "score"; points: number; timeLimit?: number };
+
+export type Outcome = "won" | "lost";
+
+export const aliveCorn = (state: EngineState) => Object.values(state.cornHealth).filter(h => h > 0).length;
+
+const elapsed = (state: EngineState) => state.time / 1000;
+
+const timedOut = (state: EngineState, timeLimit?: number) => timeLimit !== undefined && elapsed(state) >= timeLimit;
+
+export function checkObjective(objective: Objective, state: EngineState): Outcome | null {
+  switch (objective.type) {
+    case "survive":
+      return elapsed(state) >= objective.seconds ? "won" : null;
+    case "squash":
+      if (state.squashed >= objective.count) return "won";
+      return timedOut(state, objective.timeLimit) ? "lost" : null;
+    case "protect":
+      if (aliveCorn(state) < objective.corn) return "lost";
+      return elapsed(state) >= objective.seconds ? "won" : null;
+    case "score":
+      if (state.score >= objective.points) return "won";
+      return timedOut(state, objective.timeLimit) ? "lost" : null;
+  }
+}
+
+export function describeObjective(objective: Objective): string {
+  const within = (limit?: number) => (limit ? ` within ${limit}s` : "");
+  switch (objective.type) {
+    case "survive":
+      return `Survive ${objective.seconds}s`;
+    case "squash":
+      return `Squash ${objective.count} worms${within(objective.timeLimit)}`;
+    case "protect":
+      return `Keep ${objective.corn} corn alive for ${objective.seconds}s`;
+    case "score":
+      return `Reach ${objective.points} points${within(objective.timeLimit)}`;
+  }
+}
+
+/** Short progress readout for the HUD, e.g. "12/40 🐛". */
+export function objectiveProgress(objective: Objective, state: EngineState): string {
+  const seconds = Math.floor(elapsed(state));
+  switch (objective.type) {
+    case "survive":
+      return `⏱️ ${seconds}/${objective.seconds}s`;
+    case "squash":
+      return `🐛 ${state.squashed}/${objective.count}`;
+    case "protect":
+      return `🌽 ${aliveCorn(state)} alive · ⏱️ ${seconds}/${objective.seconds}s`;
+    case "score":
+      return `⭐ ${state.score}/${objective.points}`;
+  }
+}
+
+/** 1–3 stars for a won run, by how many lives were kept. */
+export function getStars(state: EngineState): number {
+  if (state.outcome !== "won") return 0;
+  const { startingLives } = state.config;
+  if (state.lives === startingLives) return 3;
+  return state.lives * 2 >= startingLives ? 2 : 1;
+}
@@ -0,0 +1,137 @@
+// Online versus: the messages a client and the versus server (server/) trade
+// over a WebSocket. Both sides run the same rules as local versus, each on its
+// own machine; the server pairs players, relays attacks and scores between
+// them and decides who won.
+
+import type { GameConfig } from "@/lib/game/engine";
+import { getLayout, LAYOUTS } from "@/lib/game/layouts";
+import { getPreset, PRESETS } from "@/lib/game/presets";
+import type { VersusResult, VersusSide } from "@/lib/game/versus";
+import { getWaveSet, WAVE_SETS } from "@/lib/game/waves";
+
+export const DEFAULT_SERVER_PORT = 8787;
+
+/** How often clients ping the server to measure latency. */
+export const PING_INTERVAL = 2000;
+
+/** How long a dropped player has to reconnect before forfeiting the match. */
+export const RECONNECT_GRACE = 15000;
+
+/** Most worms one attack message can add; the rest of a bigger jump waits for the next one. */
+export const MAX_ATTACK_STEP = 20;
+
+/**
+ * The field a match is played on. Only ids cross the wire, so each side builds
+ * the config from its own copy of the game rather than trusting the other's.
+ */
+export interface OnlineField {
+  preset: string;
+  layout: string;
+  waves: string;
+  weather: boolean;
+  dayNight: boolean;
+}
+
+/** The engine config for a field both sides agreed on. */
+export const onlineConfig = (field: OnlineField): Partial<GameConfig> => ({
+  ...getPreset(field.preset).config,
+  layout: getLayout(field.layout),
+  waves: getWaveSet(field.waves),
+  weather: field.weather,
+  dayNight: field.dayNight,
+});
+
+export type ClientMessage =
+  /** Looks for an opponent; the first of a pair to join sets the field. */
+  | { type: "join"; name: string; field: OnlineField }
+  /** Picks a match back up after the connection dropped. */
+  | { type: "resume"; token: string }
+  /** Total worms sent to the opponent so far. */
+  | { type: "attack"; total: number }
+  | { type: "state"; score: number; lives: number }
+  /** This player's field fell. */
+  | { type: "lost"; score: number }
+  | { type: "leave" }
+  | { type: "ping"; at: number };
+
+export type ServerMessage =
+  /** Waiting for an opponent; the token resumes the match after a drop. */
+  | { type: "queued"; token: string }
+  | { type: "matched"; opponent: string; seed: number; field: OnlineField }
+  | { type: "resumed" }
+  /** Total worms the opponent has sent over so far. */
+  | { type: "incoming"; total: number }
+  | { type: "opponent"; score: number; lives: number }
+  | { type: "opponentAway"; grace: number }
+  | { type: "opponentBack" }
+  | { type: "result"; sides: [VersusSide, VersusSide]; won: boolean; forfeit: boolean }
+  | { type: "error"; message: string }
+  | { type: "pong"; at: number };
+
+type Check = (message: Record<string, unknown>) => boolean;
+
+const isText = (value: unknown, max: number) => typeof value === "string" && value.length > 0 && value.length <= max;
+const isNumber = (value: unknown) => typeof value === "number" && Number.isFinite(value);
+const isCount = (value: unknown) => Number.isSafeInteger(value) && (value as number) >= 0;
+const isBoolean = (value: unknown) => typeof value === "boolean";
+const isKnown = (value: unknown, known: { id: string }[]) => known.some(k => k.id === value);
+
+const isField = (value: unknown) => {
+  const field = value as OnlineField;
+  return !!field && typeof field === "object"
+    && isKnown(field.preset, PRESETS) && isKnown(field.layout, LAYOUTS) && isKnown(field.waves, WAVE_SETS)
+    && isBoolean(field.weather) && isBoolean(field.dayNight);
+};
+
+const isSide = (value: unknown) => {
+  const side = value as VersusSide;
+  return !!side && typeof side === "object" && typeof side.name === "string" && isCount(side.score) && isCount(side.sent);
+};
+
+// What each message has to carry; anything else is turned away
+const CLIENT_CHECKS: Record<ClientMessage["type"], Check> = {
+  join: m => isText(m.name, 20) && isField(m.field),
+  resume: m => isText(m.token, 64),
+  attack: m => isCount(m.total),
+  state: m => isCount(m.score) && isCount(m.lives),
+  lost: m => isCount(m.score),
+  leave: () => true,
+  ping: m => isNumber(m.at),
+};
+
+const SERVER_CHECKS: Record<ServerMessage["type"], Check> = {
+  queued: m => isText(m.token, 64),
+  matched: m => typeof m.opponent === "string" && isCount(m.seed) && isField(m.field),
+  resumed: () => true,
+  incoming: m => isCount(m.total),
+  opponent: m => isCount(m.score) && isCount(m.lives),
+  opponentAway: m => isCount(m.grace),
+  opponentBack: () => true,
+  result: m => Array.isArray(m.sides) && m.sides.length === 2 && m.sides.every(isSide)
+    && isBoolean(m.won) && isBoolean(m.forfeit),
+  error: m => typeof m.message === "string",
+  pong: m => isNumber(m.at),
+};
+
+function parse<T extends { type: string }>(data: string, checks: Record<string, Check>): T | null {
+  try {
+    const message = JSON.parse(data);
+    const check = message && typeof message === "object" && Object.prototype.hasOwnProperty.call(checks, message.type) && checks[message.type];
+    return check && check(message) ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Reads a message from a client, or null if it isn't a well-formed one. */
+export const parseClientMessage = (data: string) => parse<ClientMessage>(data, CLIENT_CHECKS);
+
+/** Reads a message from the server, or null if it isn't a well-formed one. */
+export const parseServerMessage = (data: string) => parse<ServerMessage>(data, SERVER_CHECKS);
+
+/** The result from this player's side: they're always side 0. */
+export const onlineResult = (message: Extract<ServerMessage, { type: "result" }>): VersusResult => ({
+  sides: message.sides,
+  winner: message.won ? 0 : 1,
+  forfeit: message.forfeit,
+});
@@ -0,0 +1,186 @@
+// Power-up registry. Each power-up declares how it looks and sounds, how long
+// it lasts and which engine hooks it plugs into; the engine and UI only ever
+// go through this table, so adding a power-up means adding an entry here.
+
+import type { EngineState, GameConfig, GameEvent, Worm } from "@/lib/game/engine";
+import { PESTICIDE_BOSS_DAMAGE } from "@/lib/game/boss";
+import { plant } from "@/lib/game/crops";
+import { buildDefense } from "@/lib/game/defenses";
+import type { SoundName } from "@/lib/sounds";
+
+export type PowerUpType = "pesticide" | "shield" | "fertilizer" | "freeze" | "double" | "scarecrow" | "slowmo";
+
+/** A timed power-up that has been used and is still running. */
+export interface ActiveEffect {
+  type: PowerUpType;
+  until: number;
+  /** The cell a targeted power-up was placed on. */
+  cell?: [number, number];
+}
+
+/** Engine helpers handed to hooks, so power-ups don't reach into engine internals. */
+export interface PowerUpApi {
+  events: GameEvent[];
+  addScore: (state: EngineState, points: number) => EngineState;
+  damageBoss: (state: EngineState, amount: number) => EngineState;
+}
+
+export interface PowerUpDefinition {
+  emoji: string;
+  label: string;
+  description: string;
+  /** Played when used; sounds.ts turns the name into audio. */
+  sound: SoundName;
+  /** Flashes the field when used. */
+  flash?: boolean;
+  /** Relative chance of spawning. */
+  weight: number;
+  /** How long the effect runs; leave out for instant power-ups. */
+  duration?: (config: GameConfig) => number;
+  /** Chooses the cell a targeted power-up lands on. */
+  pickCell?: (state: EngineState) => [number, number] | null;
+  onActivate?: (state: EngineState, effect: ActiveEffect, api: PowerUpApi) => EngineState;
+  /** Runs every step while the effect is active. */
+  onTick?: (state: EngineState, effect: ActiveEffect, dt: number, api: PowerUpApi) => EngineState;
+  onExpire?: (state: EngineState, effect: ActiveEffect, api: PowerUpApi) => EngineState;
+  onWormSpawn?: (state: EngineState, effect: ActiveEffect, worm: Worm, api: PowerUpApi) => EngineState;
+  /** Filters the worms about to bite; whatever is returned still gets through. */
+  onDamage?: (state: EngineState, effect: ActiveEffect, worms: Worm[]) => Worm[];
+  /** Wards off the damage that isn't a bite, like crawlers nibbling and boss attacks. */
+  blocksDamage?: (state: EngineState, effect: ActiveEffect) => boolean;
+  /** Multiplies every point scored while the effect runs. */
+  scoreMultiplier?: number;
+}
+
+const onCell = (worm: Worm, cell?: [number, number]) => !!cell && worm.row === cell[0] && worm.col === cell[1];
+
+// Pushes every worm and boss timer back, so `ms` of game time passes them by
+function delayTimers(state: EngineState, ms: number): EngineState {
+  return {
+    ...state,
+    worms: state.worms.map(w => ({ ...w, createdAt: w.createdAt + ms, movedAt: w.movedAt + ms })),
+    boss: state.boss && { ...state.boss, nextAttackAt: state.boss.nextAttackAt + ms, nextMoveAt: state.boss.nextMoveAt + ms },
+    spawnTimer: state.spawnTimer + ms,
+  };
+}
+
+function fertilize(state: EngineState): EngineState {
+  const { cornMaxHealth, fertilizerHeal } = state.config;
+  const entries = Object.entries(state.cornHealth);
+
+  // Heal the most damaged corn, or revive a dead one if nothing is alive
+  let target: string | undefined;
+  let worst = Infinity;
+  entries.forEach(([k, v]) => {
+    if (v > 0 && v < worst) { target = k; worst = v; }
+  });
+  if (!target) target = entries.find(([, v]) => v === 0)?.[0];
+  if (!target) return state;
+
+  // A revived plant starts over as a seedling. Placed defenses get mended too.
+  const revived = state.cornHealth[target] === 0;
+  return {
+    ...state,
+    defenses: Object.fromEntries(Object.entries(state.defenses).map(([k, d]) => [k, buildDefense(d.type)])),
+    cornHealth: { ...state.cornHealth, [target]: Math.min(cornMaxHealth, state.cornHealth[target] + fertilizerHeal) },
+    crops: revived ? { ...state.crops, [target]: plant(state.time) } : state.crops,
+  };
+}
+
+// The living corn the most worms are sitting on or heading for
+function mostThreatenedCell(state: EngineState): [number, number] | null {
+  let best: [number, number] | null = null;
+  let bestThreat = -1;
+  Object.keys(state.cornHealth).forEach(key => {
+    if (!(state.cornHealth[key] > 0)) return;
+    const [row, col] = key.split("-").map(Number);
+    const threat = state.worms.filter(w =>
+      onCell(w, [row, col]) || w.path.some(([r, c]) => r === row && c === col),
+    ).length;
+    if (threat > bestThreat) { best = [row, col]; bestThreat = threat; }
+  });
+  return best;
+}
+
+export const POWERUPS: Record<PowerUpType, PowerUpDefinition> = {
+  pesticide: {
+    emoji: "🧪",
+    label: "Pesticide",
+    description: "clears all worms",
+    sound: "powerUp",
+    flash: true,
+    weight: 2,
+    onActivate: (state, _effect, api) => {
+      const cleared = { ...state, worms: [], squashed: state.squashed + state.worms.length };
+      return api.damageBoss(api.addScore(cleared, state.worms.length * 5), PESTICIDE_BOSS_DAMAGE);
+    },
+  },
+  shield: {
+    emoji: "🛡️",
+    label: "Shield",
+    description: "blocks damage",
+    sound: "shield",
+    weight: 2,
+    duration: config => config.shieldDuration,
+    onDamage: () => [],
+    blocksDamage: () => true,
+  },
+  fertilizer: {
+    emoji: "💚",
+    label: "Fertilizer",
+    description: "heals corn and mends defenses",
+    sound: "powerUp",
+    weight: 2,
+    onActivate: fertilize,
+  },
+  freeze: {
+    emoji: "❄️",
+    label: "Freeze",
+    description: "stops worms in their tracks",
+    sound: "freeze",
+    weight: 1,
+    duration: () => 4000,
+    onTick: (state, _effect, dt) => delayTimers(state, dt),
+  },
+  double: {
+    emoji: "✖️",
+    label: "Double Points",
+    description: "doubles every point scored",
+    sound: "combo",
+    weight: 1,
+    duration: () => 8000,
+    scoreMultiplier: 2,
+  },
+  scarecrow: {
+    emoji: "🧑‍🌾",
+    label: "Scarecrow",
+    description: "guards the most threatened corn",
+    sound: "shield",
+    weight: 1,
+    duration: () => 10000,
+    pickCell: mostThreatenedCell,
+    // Worms already on the cell and any that spawn there are scared off
+    onActivate: (state, effect, api) => {
+      const scared = state.worms.filter(w => onCell(w, effect.cell));
+      if (scared.length > 0) api.events.push({ type: "fled", worms: scared });
+      return { ...state, worms: state.worms.filter(w => !scared.includes(w)) };
+    },
+    onWormSpawn: (state, effect, worm, api) => {
+      if (!onCell(worm, effect.cell)) return state;
+      api.events.push({ type: "fled", worms: [worm] });
+      return { ...state, worms: state.worms.filter(w => w.id !== worm.id) };
+    },
+    onDamage: (_state, effect, worms) => worms.filter(w => !onCell(w, effect.cell)),
+  },
+  slowmo: {
+    emoji: "🐌",
+    label: "Slow-Mo",
+    description: "worms move at half speed",
+    sound: "slowMo",
+    weight: 1,
+    duration: () => 6000,
+    onTick: (state, _effect, dt) => delayTimers(state, dt / 2),
+  },
+};
+
+export const POWERUP_TYPES = Object.keys(POWERUPS) as PowerUpType[];
@@ -0,0 +1,61 @@
+// Difficulty presets for endless runs, and the best score on each. Scores
+// from before presets existed count as Normal.
+
+import { GameConfig } from "@/lib/game/engine";
+
+const STORAGE_KEY = "corn-defender-high-scores";
+const LEGACY_KEY = "corn-defender-high";
+
+export type PresetId = "easy" | "normal" | "hard" | "nightmare";
+
+export interface DifficultyPreset {
+  id: PresetId;
+  name: string;
+  emoji: string;
+  config: Partial<GameConfig>;
+}
+
+export const PRESETS: DifficultyPreset[] = [
+  {
+    id: "easy",
+    name: "Easy",
+    emoji: "🌱",
+    config: { startingLives: 7, wormLifetime: 4000, spawnRate: 0.75, spawnIntervalFloor: 900, powerUpSpawnInterval: 8000, scoreMultiplier: 0.5 },
+  },
+  { id: "normal", name: "Normal", emoji: "🌽", config: {} },
+  {
+    id: "hard",
+    name: "Hard",
+    emoji: "🔥",
+    config: { startingLives: 3, wormLifetime: 2500, spawnRate: 1.25, spawnIntervalFloor: 450, powerUpSpawnInterval: 15000, scoreMultiplier: 1.5 },
+  },
+  {
+    id: "nightmare",
+    name: "Nightmare",
+    emoji: "💀",
+    config: { startingLives: 1, wormLifetime: 2000, spawnRate: 1.5, spawnIntervalFloor: 300, powerUpSpawnInterval: 20000, scoreMultiplier: 3 },
+  },
+];
+
+export const getPreset = (id: string) => PRESETS.find(p => p.id === id) ?? PRESETS[1];
+
+type HighScores = Partial<Record<PresetId, number>>;
+
+export function loadHighScores(): HighScores {
+  try {
+    const scores: HighScores = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    const legacy = parseInt(localStorage.getItem(LEGACY_KEY) || "0", 10);
+    if (legacy > 0 && scores.normal === undefined) scores.normal = legacy;
+    return scores;
+  } catch {
+    return {};
+  }
+}
+
+/** Keeps the best score for a preset and returns the updated table. */
+export function saveHighScore(preset: PresetId, score: number): HighScores {
+  const scores = loadHighScores();
+  scores[preset] = Math.max(scores[preset] ?? 0, score);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(scores));
+  return scores;
+}
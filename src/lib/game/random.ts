@@ -0,0 +1,51 @@
+// Seeded random numbers for gameplay. The generator state is a plain uint32 so it
+// can live inside EngineState and a run can be reproduced from its seed alone.
+
+/** mulberry32: returns a float in [0, 1) and the next generator state. */
+export function nextRandom(state: number): [number, number] {
+  const next = (state + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next];
+}
+
+export function pick<T>(items: T[], state: number): [T, number] {
+  const [roll, next] = nextRandom(state);
+  return [items[Math.floor(roll * items.length)], next];
+}
+
+/** Picks an item with probability proportional to its weight. */
+export function pickWeighted<T>(items: T[], weights: number[], state: number): [T, number] {
+  const [roll, next] = nextRandom(state);
+  let target = roll * weights.reduce((sum, w) => sum + w, 0);
+  for (let i = 0; i < items.length; i++) {
+    target -= weights[i];
+    if (target < 0) return [items[i], next];
+  }
+  return [items[items.length - 1], next];
+}
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
+
+/** FNV-1a hash, so any text can be used as a seed. */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Reads a typed seed: whole numbers are used as they are and any other text is
+ * hashed. Null for a blank seed or a number too big for the generator.
+ */
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  if (!/^\d+$/.test(trimmed)) return hashSeed(trimmed);
+  const seed = Number(trimmed);
+  return seed <= 0xffffffff ? seed : null;
+}
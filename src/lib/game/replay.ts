@@ -0,0 +1,78 @@
+// Run recording and playback. A replay is the seed plus every player action
+// stamped with the engine time it happened at; since the engine is stepped in
+// fixed TICK_MS increments, re-simulating the log reproduces the run exactly.
+
+import { createGame, step, dispatch, TICK_MS, EngineState, GameAction, GameConfig } from "@/lib/game/engine";
+
+const STORAGE_KEY = "corn-defender-replays";
+const MAX_SAVED_REPLAYS = 10;
+
+export interface ReplayLog {
+  id: string;
+  seed: number;
+  config: Partial<GameConfig>;
+  recordedAt: number;
+  score: number;
+  duration: number;
+  /** [time, level] each time the difficulty went up. */
+  levels: [number, number][];
+  actions: [number, GameAction][];
+}
+
+export function startRecording(seed: number, config: Partial<GameConfig> = {}): ReplayLog {
+  const recordedAt = Date.now();
+  return {
+    id: recordedAt.toString(36),
+    seed,
+    config,
+    recordedAt,
+    score: 0,
+    duration: 0,
+    levels: [[0, 1]],
+    actions: [],
+  };
+}
+
+export function recordAction(log: ReplayLog, state: EngineState, action: GameAction) {
+  log.actions.push([state.time, action]);
+}
+
+export function recordTick(log: ReplayLog, state: EngineState) {
+  const [, level] = log.levels[log.levels.length - 1];
+  if (state.difficulty !== level) log.levels.push([state.time, state.difficulty]);
+  log.score = state.score;
+  log.duration = state.time;
+}
+
+function applyActions(log: ReplayLog, state: EngineState): EngineState {
+  return log.actions
+    .filter(([t]) => t === state.time)
+    .reduce((s, [, action]) => dispatch(s, action), state);
+}
+
+export const startReplay = (log: ReplayLog) => applyActions(log, createGame(log.config, log.seed));
+
+/** Advances a replayed game by one tick, applying the actions recorded for it. */
+export const replayTick = (log: ReplayLog, state: EngineState) => applyActions(log, step(state, TICK_MS));
+
+/** Re-simulates the run from the start up to `time`, used for scrubbing. */
+export function replayTo(log: ReplayLog, time: number): EngineState {
+  let state = startReplay(log);
+  while (state.time < time && !state.gameOver) state = replayTick(log, state);
+  return state;
+}
+
+export function listReplays(): ReplayLog[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+export const loadReplay = (id: string) => listReplays().find(r => r.id === id) ?? null;
+
+export function saveReplay(log: ReplayLog) {
+  const replays = [log, ...listReplays().filter(r => r.id !== log.id)].slice(0, MAX_SAVED_REPLAYS);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(replays));
+}
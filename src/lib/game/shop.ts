@@ -0,0 +1,127 @@
+// Coins and permanent upgrades. Every scored run pays out coins; the shop
+// spends them on upgrades that are folded into the next endless run's config.
+
+import { DEFAULT_CONFIG, EngineState, GameConfig } from "@/lib/game/engine";
+import { aliveCorn } from "@/lib/game/objectives";
+
+const STORAGE_KEY = "corn-defender-shop";
+
+export type UpgradeId = "shield" | "life" | "fertilizer" | "slots" | "lifetime";
+
+export interface Upgrade {
+  id: UpgradeId;
+  name: string;
+  emoji: string;
+  description: string;
+  maxLevel: number;
+  /** Coins for the first level; each level after costs that much more. */
+  baseCost: number;
+  apply: (config: GameConfig, level: number) => Partial<GameConfig>;
+}
+
+export const UPGRADES: Upgrade[] = [
+  {
+    id: "shield",
+    name: "Sturdy Shield",
+    emoji: "🛡️",
+    description: "+1.5s shield per level",
+    maxLevel: 3,
+    baseCost: 40,
+    apply: (config, level) => ({ shieldDuration: config.shieldDuration + level * 1500 }),
+  },
+  {
+    id: "life",
+    name: "Extra Heart",
+    emoji: "❤️",
+    description: "+1 starting life per level",
+    maxLevel: 3,
+    baseCost: 80,
+    apply: (config, level) => ({ startingLives: config.startingLives + level }),
+  },
+  {
+    id: "fertilizer",
+    name: "Rich Fertilizer",
+    emoji: "💚",
+    description: "+1 fertilizer heal per level",
+    maxLevel: 2,
+    baseCost: 50,
+    apply: (config, level) => ({ fertilizerHeal: config.fertilizerHeal + level }),
+  },
+  {
+    id: "slots",
+    name: "Bigger Toolbelt",
+    emoji: "🧰",
+    description: "+1 power-up slot per level",
+    maxLevel: 2,
+    baseCost: 60,
+    apply: (config, level) => ({ maxPowerUps: config.maxPowerUps + level }),
+  },
+  {
+    id: "lifetime",
+    name: "Sleepy Worms",
+    emoji: "😴",
+    description: "Worms linger 10% longer per level",
+    maxLevel: 3,
+    baseCost: 70,
+    apply: (config, level) => ({ wormLifetime: Math.round(config.wormLifetime * (1 + level * 0.1)) }),
+  },
+];
+
+export interface Wallet {
+  coins: number;
+  upgrades: Partial<Record<UpgradeId, number>>;
+}
+
+export function loadWallet(): Wallet {
+  try {
+    const wallet = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    return { coins: wallet.coins ?? 0, upgrades: wallet.upgrades ?? {} };
+  } catch {
+    return { coins: 0, upgrades: {} };
+  }
+}
+
+const saveWallet = (wallet: Wallet) => localStorage.setItem(STORAGE_KEY, JSON.stringify(wallet));
+
+/** Coins paid out for a finished run. */
+export const coinsForRun = (state: EngineState) =>
+  Math.floor(state.score / 10) + state.squashed + aliveCorn(state) * 2;
+
+export function earnCoins(amount: number): Wallet {
+  const wallet = loadWallet();
+  const next = { ...wallet, coins: wallet.coins + amount };
+  saveWallet(next);
+  return next;
+}
+
+export const upgradeLevel = (wallet: Wallet, id: UpgradeId) => wallet.upgrades[id] ?? 0;
+
+/** Price of the next level, or null once maxed out. */
+export function upgradeCost(wallet: Wallet, upgrade: Upgrade): number | null {
+  const level = upgradeLevel(wallet, upgrade.id);
+  return level >= upgrade.maxLevel ? null : upgrade.baseCost * (level + 1);
+}
+
+export function buyUpgrade(id: UpgradeId): Wallet {
+  const wallet = loadWallet();
+  const upgrade = UPGRADES.find(u => u.id === id);
+  if (!upgrade) throw new Error(`Unknown upgrade "${id}"`);
+  const cost = upgradeCost(wallet, upgrade);
+  if (cost === null) throw new Error(`${upgrade.name} is already maxed out`);
+  if (cost > wallet.coins) throw new Error(`${upgrade.name} needs ${cost} coins`);
+
+  const next = {
+    coins: wallet.coins - cost,
+    upgrades: { ...wallet.upgrades, [id]: upgradeLevel(wallet, id) + 1 },
+  };
+  saveWallet(next);
+  return next;
+}
+
+/** Layers the bought upgrades over a run's config overrides. */
+export function upgradeConfig(overrides: Partial<GameConfig>, wallet = loadWallet()): Partial<GameConfig> {
+  return UPGRADES.reduce((config, upgrade) => {
+    const level = upgradeLevel(wallet, upgrade.id);
+    return level > 0 ? { ...config, ...upgrade.apply({ ...DEFAULT_CONFIG, ...config }, level) } : config;
+  }, overrides);
+}
@@ -0,0 +1,30 @@
+// Local versus: two fields side by side, where long combos on one send worms
+// over to the other. The last field standing wins.
+
+import type { GameEvent } from "@/lib/game/engine";
+
+/** Every this many hits in a combo sends worms over. */
+export const ATTACK_COMBO = 3;
+
+/** Worms a squash at this combo sends: one at 3, two at 6, and so on. */
+export const attackForCombo = (combo: number) =>
+  combo >= ATTACK_COMBO && combo % ATTACK_COMBO === 0 ? combo / ATTACK_COMBO : 0;
+
+/** Worms to send to the opponent for everything that just happened. */
+export const attackWorms = (events: GameEvent[]) =>
+  events.reduce((total, e) => total + (e.type === "squash" ? attackForCombo(e.combo) : 0), 0);
+
+export interface VersusSide {
+  name: string;
+  score: number;
+  /** Worms sent over to the other field. */
+  sent: number;
+}
+
+export interface VersusResult {
+  sides: [VersusSide, VersusSide];
+  /** Index of the side still standing. */
+  winner: 0 | 1;
+  /** The loser left the match rather than falling. */
+  forfeit?: boolean;
+}
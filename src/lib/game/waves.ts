@@ -0,0 +1,104 @@
+// Wave definitions as data. Each wave set is a JSON file in wave-sets/ that
+// lists waves in order; once they run out the last one keeps repeating,
+// a little bigger and faster each time. Every file in the folder is picked up.
+
+import { ENEMY_TYPES, EnemyType } from "@/lib/game/enemies";
+
+/**
+ * Which corn a wave goes for: "weighted" uses the layout's spawn weights,
+ * "healthiest" and "weakest" pick by corn health, "edges" sticks to the border.
+ */
+export type TargetRule = "weighted" | "healthiest" | "weakest" | "edges";
+
+export const TARGET_RULES: TargetRule[] = ["weighted", "healthiest", "weakest", "edges"];
+
+export interface WaveDefinition {
+  name?: string;
+  /** Relative spawn weights; leave out to use the level's usual mix. */
+  enemies?: Partial<Record<EnemyType, number>>;
+  /** Spawns in the wave. */
+  count: number;
+  /** Time between spawns. */
+  interval: number;
+  /** Enemies per spawn; defaults to 1. */
+  burst?: number;
+  /** Extra quiet time after the wave's last interval, while the next one is announced. */
+  rest: number;
+  target?: TargetRule;
+}
+
+export interface WaveSet {
+  id: string;
+  name: string;
+  waves: WaveDefinition[];
+  /** How the last wave grows each time it repeats. */
+  endless: { countStep: number; intervalScale: number; minInterval: number };
+}
+
+/** Calm before the first wave, while "Wave 1" is announced. */
+export const FIRST_WAVE_DELAY = 2000;
+
+/** How long the "Wave N" banner stays up once a wave starts. */
+export const WAVE_BANNER_MS = 1500;
+
+const isNumber = (value: unknown, min: number) => typeof value === "number" && Number.isFinite(value) && value >= min;
+
+/** Checks untrusted JSON and returns it as a wave set. */
+export function validateWaveSet(data: unknown): WaveSet {
+  const set = data as WaveSet;
+  if (!set || typeof set !== "object") throw new Error("Wave set must be a JSON object");
+  if (typeof set.id !== "string" || typeof set.name !== "string") {
+    throw new Error("Wave set needs a string id and name");
+  }
+  if (!Array.isArray(set.waves) || set.waves.length === 0) throw new Error("Wave set needs at least one wave");
+  set.waves.forEach((wave, i) => {
+    const where = `Wave ${i + 1}`;
+    if (!isNumber(wave?.count, 1)) throw new Error(`${where} needs a count of at least 1`);
+    if (!isNumber(wave.interval, 1)) throw new Error(`${where} needs a positive interval`);
+    if (!isNumber(wave.rest, 0)) throw new Error(`${where} has an invalid rest`);
+    if (wave.burst !== undefined && !isNumber(wave.burst, 1)) throw new Error(`${where} has an invalid burst`);
+    if (wave.target !== undefined && !TARGET_RULES.includes(wave.target)) {
+      throw new Error(`${where} has an unknown target rule`);
+    }
+    if (wave.enemies !== undefined) {
+      const entries = Object.entries(wave.enemies);
+      if (entries.some(([type, weight]) => !ENEMY_TYPES.includes(type as EnemyType) || !isNumber(weight, 0))) {
+        throw new Error(`${where} has an invalid enemy mix`);
+      }
+      if (!entries.some(([, weight]) => weight > 0)) throw new Error(`${where} needs at least one enemy`);
+    }
+  });
+  const { endless } = set;
+  if (!endless || !isNumber(endless.countStep, 0) || !isNumber(endless.intervalScale, 0) || !isNumber(endless.minInterval, 1)) {
+    throw new Error("Wave set needs endless countStep, intervalScale and minInterval");
+  }
+  return set;
+}
+
+const files = import.meta.glob<unknown>("./wave-sets/*.json", { eager: true, import: "default" });
+
+// The standard set leads the list as the default; the rest follow by file name
+export const WAVE_SETS: WaveSet[] = Object.entries(files)
+  .map(([path, data]) => {
+    try {
+      return validateWaveSet(data);
+    } catch (e) {
+      throw new Error(`${path}: ${e instanceof Error ? e.message : e}`);
+    }
+  })
+  .sort((a, b) => Number(b.id === "standard") - Number(a.id === "standard"));
+
+export const getWaveSet = (id: string) => WAVE_SETS.find(s => s.id === id) ?? WAVE_SETS[0];
+
+/** The definition for wave `n` (1-based), growing the last wave past the end of the list. */
+export function waveAt(set: WaveSet, n: number): WaveDefinition {
+  const { waves, endless } = set;
+  if (n <= waves.length) return waves[n - 1];
+  const extra = n - waves.length;
+  const last = waves[waves.length - 1];
+  return {
+    ...last,
+    count: last.count + extra * endless.countStep,
+    interval: Math.max(endless.minInterval, Math.round(last.interval * endless.intervalScale ** extra)),
+  };
+}
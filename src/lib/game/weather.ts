@@ -0,0 +1,67 @@
+// Weather that rolls over the field in spells. Each spell runs for a while,
+// the next one is forecast ahead of time, and every kind of weather does its
+// thing to the field on a steady beat.
+
+import { pickWeighted } from "@/lib/game/random";
+
+export type WeatherType = "clear" | "rain" | "drought" | "wind" | "fog";
+
+export interface WeatherInfo {
+  emoji: string;
+  label: string;
+  description: string;
+  /** Relative chance of being forecast next. */
+  weight: number;
+  /** How often the weather acts on the field, for weather that does. */
+  interval?: number;
+}
+
+export const WEATHER: Record<WeatherType, WeatherInfo> = {
+  clear: { emoji: "☀️", label: "Clear", description: "nothing to worry about", weight: 3 },
+  rain: { emoji: "🌧️", label: "Rain", description: "corn regrows, worms come faster", weight: 2, interval: 4000 },
+  drought: { emoji: "🏜️", label: "Drought", description: "corn wilts unless you tap to water it", weight: 2, interval: 5000 },
+  wind: { emoji: "🌬️", label: "Wind", description: "gusts blow worms to the next cell", weight: 2, interval: 3000 },
+  fog: { emoji: "🌫️", label: "Fog", description: "some cells are hard to see", weight: 1 },
+};
+
+export const WEATHER_TYPES = Object.keys(WEATHER) as WeatherType[];
+
+/** Picks the weather to forecast next. */
+export const forecast = (rngState: number): [WeatherType, number] =>
+  pickWeighted(WEATHER_TYPES, WEATHER_TYPES.map(t => WEATHER[t].weight), rngState);
+
+/** How long each spell of weather lasts. */
+export const WEATHER_DURATION = 15000;
+
+/** Spawn intervals while it rains. */
+export const RAIN_SPAWN_SCALE = 0.75;
+
+/** How long a watered plant stays safe from drought. */
+export const WATER_DURATION = 10000;
+
+/** Share of the corn cells fog covers. */
+export const FOG_COVERAGE = 0.5;
+
+export const WIND_DIRECTIONS: [number, number][] = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+
+export interface WeatherState {
+  current: WeatherType;
+  /** The forecast: what comes once this spell ends. */
+  next: WeatherType;
+  endsAt: number;
+  /** When the current weather next acts on the field. */
+  actsAt: number;
+  /** Which way the wind blows while it's windy. */
+  wind: [number, number];
+  /** Cells hidden while it's foggy, keyed like cornHealth. */
+  fogged: string[];
+}
+
+export const clearSkies = (time: number, next: WeatherType = "clear"): WeatherState => ({
+  current: "clear",
+  next,
+  endsAt: time + WEATHER_DURATION,
+  actsAt: Infinity,
+  wind: [0, 1],
+  fogged: [],
+});
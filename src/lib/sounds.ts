@@ -1,5 +1,8 @@
 // Procedural sound effects using Web Audio API — no external services needed
 
+import type { SquashSound } from "@/lib/game/enemies";
+import type { WeatherType } from "@/lib/game/weather";
+
 let audioCtx: AudioContext | null = null;
 
 function getCtx() {
@@ -7,21 +10,25 @@ function getCtx() {
   return audioCtx;
 }
 
-export function playSquashSound() {
+/** Each enemy squashes with its own sweep, over the same pop of noise. */
+export function playSquashSound({ wave, from, to, length, repeats = 1 }: SquashSound) {
   const ctx = getCtx();
-  const osc = ctx.createOscillator();
-  const gain = ctx.createGain();
-  osc.connect(gain);
-  gain.connect(ctx.destination);
+  for (let i = 0; i < repeats; i++) {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.connect(gain);
+    gain.connect(ctx.destination);
 
-  osc.type = "sine";
-  osc.frequency.setValueAtTime(600, ctx.currentTime);
-  osc.frequency.exponentialRampToValueAtTime(150, ctx.currentTime + 0.15);
-  gain.gain.setValueAtTime(0.3, ctx.currentTime);
-  gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.15);
+    const t = ctx.currentTime + i * length * 0.6;
+    osc.type = wave;
+    osc.frequency.setValueAtTime(from, t);
+    osc.frequency.exponentialRampToValueAtTime(to, t + length);
+    gain.gain.setValueAtTime(0.3, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + length);
 
-  osc.start(ctx.currentTime);
-  osc.stop(ctx.currentTime + 0.15);
+    osc.start(t);
+    osc.stop(t + length);
+  }
 
   // Add a "pop" noise burst
   const noise = ctx.createBufferSource();
@@ -123,6 +130,375 @@ export function playShieldSound() {
   osc.stop(ctx.currentTime + 0.4);
 }
 
+export function playArmorHitSound() {
+  const ctx = getCtx();
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.connect(gain);
+  gain.connect(ctx.destination);
+  osc.type = "square";
+  osc.frequency.setValueAtTime(900, ctx.currentTime);
+  osc.frequency.exponentialRampToValueAtTime(500, ctx.currentTime + 0.08);
+  gain.gain.setValueAtTime(0.12, ctx.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.1);
+  osc.start(ctx.currentTime);
+  osc.stop(ctx.currentTime + 0.1);
+}
+
+export function playFleeSound() {
+  const ctx = getCtx();
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.connect(gain);
+  gain.connect(ctx.destination);
+  osc.type = "sine";
+  osc.frequency.setValueAtTime(500, ctx.currentTime);
+  osc.frequency.exponentialRampToValueAtTime(1500, ctx.currentTime + 0.2);
+  gain.gain.setValueAtTime(0.08, ctx.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.2);
+  osc.start(ctx.currentTime);
+  osc.stop(ctx.currentTime + 0.2);
+}
+
+export function playHopSound() {
+  const ctx = getCtx();
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.connect(gain);
+  gain.connect(ctx.destination);
+  osc.type = "triangle";
+  osc.frequency.setValueAtTime(200, ctx.currentTime);
+  osc.frequency.exponentialRampToValueAtTime(400, ctx.currentTime + 0.06);
+  gain.gain.setValueAtTime(0.06, ctx.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.08);
+  osc.start(ctx.currentTime);
+  osc.stop(ctx.currentTime + 0.08);
+}
+
+export function playFreezeSound() {
+  const ctx = getCtx();
+  const notes = [1568, 1319, 1047, 1319];
+  notes.forEach((freq, i) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.connect(gain);
+    gain.connect(ctx.destination);
+    osc.type = "sine";
+    const t = ctx.currentTime + i * 0.06;
+    osc.frequency.setValueAtTime(freq, t);
+    gain.gain.setValueAtTime(0.08, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.3);
+    osc.start(t);
+    osc.stop(t + 0.3);
+  });
+}
+
+export function playSlowMoSound() {
+  const ctx = getCtx();
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.connect(gain);
+  gain.connect(ctx.destination);
+  osc.type = "sine";
+  osc.frequency.setValueAtTime(600, ctx.currentTime);
+  osc.frequency.exponentialRampToValueAtTime(150, ctx.currentTime + 0.6);
+  gain.gain.setValueAtTime(0.12, ctx.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.6);
+  osc.start(ctx.currentTime);
+  osc.stop(ctx.currentTime + 0.6);
+}
+
+export function playHarvestSound() {
+  const ctx = getCtx();
+  const notes = [523, 784];
+  notes.forEach((freq, i) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.connect(gain);
+    gain.connect(ctx.destination);
+    osc.type = "sine";
+    const t = ctx.currentTime + i * 0.08;
+    osc.frequency.setValueAtTime(freq, t);
+    gain.gain.setValueAtTime(0.15, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.25);
+    osc.start(t);
+    osc.stop(t + 0.25);
+  });
+}
+
+export function playWaveStartSound() {
+  const ctx = getCtx();
+  [0, 0.18].forEach(offset => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.connect(gain);
+    gain.connect(ctx.destination);
+    osc.type = "triangle";
+    const t = ctx.currentTime + offset;
+    osc.frequency.setValueAtTime(330, t);
+    osc.frequency.linearRampToValueAtTime(440, t + 0.12);
+    gain.gain.setValueAtTime(0.12, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.16);
+    osc.start(t);
+    osc.stop(t + 0.16);
+  });
+}
+
+export function playBossRoarSound() {
+  const ctx = getCtx();
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.connect(gain);
+  gain.connect(ctx.destination);
+  osc.type = "sawtooth";
+  osc.frequency.setValueAtTime(60, ctx.currentTime);
+  osc.frequency.linearRampToValueAtTime(110, ctx.currentTime + 0.25);
+  osc.frequency.exponentialRampToValueAtTime(40, ctx.currentTime + 0.7);
+  gain.gain.setValueAtTime(0.2, ctx.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.7);
+  osc.start(ctx.currentTime);
+  osc.stop(ctx.currentTime + 0.7);
+}
+
+export function playBossDefeatedSound() {
+  const ctx = getCtx();
+  const notes = [392, 523, 659, 784, 1047];
+  notes.forEach((freq, i) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.connect(gain);
+    gain.connect(ctx.destination);
+    osc.type = "square";
+    const t = ctx.currentTime + i * 0.1;
+    osc.frequency.setValueAtTime(freq, t);
+    gain.gain.setValueAtTime(0.1, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.3);
+    osc.start(t);
+    osc.stop(t + 0.3);
+  });
+}
+
+export function playPlaceSound() {
+  const ctx = getCtx();
+  [0, 0.09].forEach(offset => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.connect(gain);
+    gain.connect(ctx.destination);
+    osc.type = "triangle";
+    const t = ctx.currentTime + offset;
+    osc.frequency.setValueAtTime(220, t);
+    osc.frequency.exponentialRampToValueAtTime(110, t + 0.08);
+    gain.gain.setValueAtTime(0.25, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.08);
+    osc.start(t);
+    osc.stop(t + 0.08);
+  });
+}
+
+export function playTrapSound() {
+  const ctx = getCtx();
+  const noise = ctx.createBufferSource();
+  const buf = ctx.createBuffer(1, ctx.sampleRate * 0.04, ctx.sampleRate);
+  const data = buf.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = (Math.random() * 2 - 1) * (1 - i / data.length);
+  noise.buffer = buf;
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0.4, ctx.currentTime);
+  noise.connect(gain);
+  gain.connect(ctx.destination);
+  noise.start(ctx.currentTime);
+}
+
+export function playFenceSound() {
+  const ctx = getCtx();
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.connect(gain);
+  gain.connect(ctx.destination);
+  osc.type = "square";
+  osc.frequency.setValueAtTime(140, ctx.currentTime);
+  osc.frequency.exponentialRampToValueAtTime(70, ctx.currentTime + 0.12);
+  gain.gain.setValueAtTime(0.12, ctx.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.12);
+  osc.start(ctx.currentTime);
+  osc.stop(ctx.currentTime + 0.12);
+}
+
+export function playAttackSound() {
+  const ctx = getCtx();
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.connect(gain);
+  gain.connect(ctx.destination);
+  osc.type = "sawtooth";
+  osc.frequency.setValueAtTime(900, ctx.currentTime);
+  osc.frequency.exponentialRampToValueAtTime(180, ctx.currentTime + 0.35);
+  gain.gain.setValueAtTime(0.1, ctx.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.35);
+  osc.start(ctx.currentTime);
+  osc.stop(ctx.currentTime + 0.35);
+}
+
+export function playClaimSound() {
+  const ctx = getCtx();
+  [660, 990].forEach((freq, i) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.connect(gain);
+    gain.connect(ctx.destination);
+    osc.type = "sine";
+    const t = ctx.currentTime + i * 0.06;
+    osc.frequency.setValueAtTime(freq, t);
+    gain.gain.setValueAtTime(0.2, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.12);
+    osc.start(t);
+    osc.stop(t + 0.12);
+  });
+}
+
+export function playNightfallSound() {
+  const ctx = getCtx();
+  // An owl: hoo... hoo-hoo
+  [0, 0.5, 0.7].forEach(offset => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.connect(gain);
+    gain.connect(ctx.destination);
+    osc.type = "sine";
+    const t = ctx.currentTime + offset;
+    osc.frequency.setValueAtTime(420, t);
+    osc.frequency.linearRampToValueAtTime(380, t + 0.18);
+    gain.gain.setValueAtTime(0.001, t);
+    gain.gain.exponentialRampToValueAtTime(0.12, t + 0.04);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.18);
+    osc.start(t);
+    osc.stop(t + 0.18);
+  });
+}
+
+export function playDaybreakSound() {
+  const ctx = getCtx();
+  const notes = [523, 659, 784, 1047, 1319];
+  notes.forEach((freq, i) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.connect(gain);
+    gain.connect(ctx.destination);
+    osc.type = "triangle";
+    const t = ctx.currentTime + i * 0.08;
+    osc.frequency.setValueAtTime(freq, t);
+    gain.gain.setValueAtTime(0.1, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.25);
+    osc.start(t);
+    osc.stop(t + 0.25);
+  });
+}
+
+export function playGustSound() {
+  const ctx = getCtx();
+  const noise = ctx.createBufferSource();
+  noise.buffer = noiseBuffer(ctx, 0.6);
+  const filter = ctx.createBiquadFilter();
+  filter.type = "bandpass";
+  filter.frequency.setValueAtTime(300, ctx.currentTime);
+  filter.frequency.exponentialRampToValueAtTime(1200, ctx.currentTime + 0.6);
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0.001, ctx.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.25, ctx.currentTime + 0.2);
+  gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.6);
+  noise.connect(filter);
+  filter.connect(gain);
+  gain.connect(ctx.destination);
+  noise.start(ctx.currentTime);
+}
+
+export function playWaterSound() {
+  const ctx = getCtx();
+  [0, 0.07, 0.14].forEach((offset, i) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.connect(gain);
+    gain.connect(ctx.destination);
+    osc.type = "sine";
+    const t = ctx.currentTime + offset;
+    osc.frequency.setValueAtTime(700 + i * 150, t);
+    osc.frequency.exponentialRampToValueAtTime(1400 + i * 200, t + 0.06);
+    gain.gain.setValueAtTime(0.12, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.08);
+    osc.start(t);
+    osc.stop(t + 0.08);
+  });
+}
+
+function noiseBuffer(ctx: AudioContext, seconds: number) {
+  const buf = ctx.createBuffer(1, ctx.sampleRate * seconds, ctx.sampleRate);
+  const data = buf.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  return buf;
+}
+
+// Weather ambience — a quiet loop under the music for whatever the sky is doing
+let ambientNodes: AudioScheduledSourceNode[] = [];
+let ambientInterval: ReturnType<typeof setInterval> | null = null;
+
+export function startWeatherAmbience(weather: WeatherType) {
+  stopWeatherAmbience();
+  const ctx = getCtx();
+
+  // Rain hiss and wind rumble are looped, filtered noise
+  if (weather === "rain" || weather === "wind") {
+    const noise = ctx.createBufferSource();
+    noise.buffer = noiseBuffer(ctx, 2);
+    noise.loop = true;
+    const filter = ctx.createBiquadFilter();
+    filter.type = weather === "rain" ? "highpass" : "lowpass";
+    filter.frequency.setValueAtTime(weather === "rain" ? 1500 : 400, ctx.currentTime);
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(weather === "rain" ? 0.04 : 0.08, ctx.currentTime);
+    noise.connect(filter);
+    filter.connect(gain);
+    gain.connect(ctx.destination);
+    noise.start();
+    ambientNodes.push(noise);
+  }
+
+  // Fog hangs as a low drone
+  if (weather === "fog") {
+    const drone = ctx.createOscillator();
+    const gain = ctx.createGain();
+    drone.type = "sine";
+    drone.frequency.setValueAtTime(82, ctx.currentTime);
+    gain.gain.setValueAtTime(0.04, ctx.currentTime);
+    drone.connect(gain);
+    gain.connect(ctx.destination);
+    drone.start();
+    ambientNodes.push(drone);
+  }
+
+  // Drought has cicadas chirping in the heat
+  if (weather === "drought") {
+    ambientInterval = setInterval(() => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.connect(gain);
+      gain.connect(ctx.destination);
+      osc.type = "sawtooth";
+      osc.frequency.setValueAtTime(4200, ctx.currentTime);
+      gain.gain.setValueAtTime(0.015, ctx.currentTime);
+      gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.3);
+      osc.start(ctx.currentTime);
+      osc.stop(ctx.currentTime + 0.3);
+    }, 700);
+  }
+}
+
+export function stopWeatherAmbience() {
+  ambientNodes.forEach(n => { try { n.stop(); } catch { /* already stopped */ } });
+  ambientNodes = [];
+  if (ambientInterval) { clearInterval(ambientInterval); ambientInterval = null; }
+}
+
 // Background music — a simple cheerful loop
 let bgOscillators: OscillatorNode[] = [];
 let bgInterval: ReturnType<typeof setInterval> | null = null;
@@ -173,3 +549,17 @@ export function stopBackgroundMusic() {
   bgOscillators = [];
   if (bgInterval) { clearInterval(bgInterval); bgInterval = null; }
 }
+
+// Effects other modules can name as data, so game rules pick a sound without
+// pulling in Web Audio
+const NAMED_SOUNDS = {
+  powerUp: playPowerUpSound,
+  shield: playShieldSound,
+  freeze: playFreezeSound,
+  combo: () => playComboSound(5),
+  slowMo: playSlowMoSound,
+};
+
+export type SoundName = keyof typeof NAMED_SOUNDS;
+
+export const playSound = (name: SoundName) => NAMED_SOUNDS[name]();
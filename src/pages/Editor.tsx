@@ -0,0 +1,288 @@
+import { useState, useCallback, useRef } from "react";
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
+import GameBoard from "@/components/game/GameBoard";
+import { DEFAULT_CONFIG } from "@/lib/game/engine";
+import { randomSeed } from "@/lib/game/random";
+import {
+  CELL_KINDS, CLASSIC_LAYOUT, MAX_LAYOUT_SIZE, getLayoutSize, resizeLayout, validateLayout,
+  CellKind, FieldLayout, LayoutCell,
+} from "@/lib/game/layouts";
+
+type Tool = "kind" | "health" | "spawnWeight";
+
+const KIND_INFO: Record<CellKind, { emoji: string; label: string }> = {
+  corn: { emoji: "🌽", label: "Corn" },
+  empty: { emoji: "⬜", label: "Empty" },
+  rock: { emoji: "🪨", label: "Rock" },
+};
+
+const TOOL_LABELS: Record<Tool, string> = {
+  kind: "Paint",
+  health: "Health",
+  spawnWeight: "Spawn weight",
+};
+
+const slugify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "layout";
+
+const Editor = () => {
+  const [layout, setLayout] = useState<FieldLayout>({ ...CLASSIC_LAYOUT, id: "custom", name: "My Field" });
+  const [tool, setTool] = useState<Tool>("kind");
+  const [brushKind, setBrushKind] = useState<CellKind>("corn");
+  const [brushValue, setBrushValue] = useState(DEFAULT_CONFIG.cornMaxHealth);
+  const [painting, setPainting] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [testKey, setTestKey] = useState(0);
+  const [testSeed, setTestSeed] = useState(0);
+  const [testScore, setTestScore] = useState(0);
+  const [testLives, setTestLives] = useState(DEFAULT_CONFIG.startingLives);
+  const [testOver, setTestOver] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { rows, cols } = getLayoutSize(layout);
+
+  const paintCell = (row: number, col: number) => {
+    setLayout(prev => {
+      const cell = prev.cells[row][col];
+      let next: LayoutCell;
+      if (tool === "kind") {
+        next = brushKind === "corn" ? { ...cell, kind: "corn" } : { kind: brushKind };
+      } else {
+        if (cell.kind !== "corn") return prev;
+        next = { ...cell, [tool]: brushValue };
+      }
+      const cells = prev.cells.map(r => [...r]);
+      cells[row][col] = next;
+      return { ...prev, cells };
+    });
+  };
+
+  const resize = (newRows: number, newCols: number) => {
+    const clamp = (n: number) => Math.min(MAX_LAYOUT_SIZE, Math.max(1, n || 1));
+    setLayout(prev => resizeLayout(prev, clamp(newRows), clamp(newCols)));
+  };
+
+  const exportLayout = () => {
+    const data = { ...layout, id: slugify(layout.name) };
+    const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${data.id}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importLayout = async (file: File) => {
+    try {
+      setLayout(validateLayout(JSON.parse(await file.text())));
+      toast.success(`Loaded ${file.name}`);
+    } catch (e) {
+      toast.error(`Couldn't load ${file.name}: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const startTest = () => {
+    setTestScore(0);
+    setTestLives(DEFAULT_CONFIG.startingLives);
+    setTestOver(false);
+    setTestSeed(randomSeed());
+    setTestKey(k => k + 1);
+    setTesting(true);
+  };
+
+  const handleTestOver = useCallback(() => setTestOver(true), []);
+
+  const describeCell = (cell: LayoutCell) => {
+    if (cell.kind !== "corn") return null;
+    return (
+      <span className="absolute bottom-0.5 inset-x-0 text-[10px] leading-none font-body text-muted-foreground">
+        ❤{cell.health ?? DEFAULT_CONFIG.cornMaxHealth} · w{cell.spawnWeight ?? 1}
+      </span>
+    );
+  };
+
+  if (testing) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-background px-4 py-8">
+        <div className="w-full max-w-lg mx-auto">
+          <div className="flex justify-between items-center mb-4 px-2">
+            <div className="font-display font-bold text-lg text-foreground">⭐ {testScore}</div>
+            <div className="font-display font-bold text-lg text-foreground">
+              {"❤️".repeat(Math.max(0, testLives))}
+            </div>
+          </div>
+          {testOver ? (
+            <div className="flex flex-col items-center gap-4 bounce-in">
+              <h2 className="font-display text-3xl font-bold text-accent">Test over: {testScore} points</h2>
+              <button
+                onClick={startTest}
+                className="px-6 py-3 bg-primary text-primary-foreground rounded-2xl font-display text-lg font-bold shadow-lg hover:scale-105 active:scale-95 transition-transform"
+              >
+                Play Again 🔄
+              </button>
+            </div>
+          ) : (
+            <GameBoard
+              key={testKey}
+              onScoreChange={setTestScore}
+              onLivesChange={setTestLives}
+              onGameOver={handleTestOver}
+              isPlaying
+              seed={testSeed}
+              config={{ layout }}
+            />
+          )}
+          <button
+            onClick={() => setTesting(false)}
+            className="block mx-auto mt-6 text-muted-foreground font-body text-sm underline hover:text-foreground"
+          >
+            Back to Editor ✏️
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="min-h-screen flex flex-col items-center bg-background px-4 py-8"
+      onPointerUp={() => setPainting(false)}
+      onPointerLeave={() => setPainting(false)}
+    >
+      <div className="w-full max-w-lg mx-auto flex flex-col gap-5">
+        <div className="text-center">
+          <h1 className="game-title text-3xl sm:text-4xl font-bold text-primary mb-1">✏️ Field Editor</h1>
+          <p className="text-muted-foreground font-body text-sm">Paint a field cell by cell, then test-play it.</p>
+        </div>
+
+        {/* Layout settings */}
+        <div className="flex flex-wrap items-center justify-center gap-3 font-body text-sm">
+          <input
+            value={layout.name}
+            onChange={e => setLayout(prev => ({ ...prev, name: e.target.value }))}
+            className="w-36 px-3 py-1.5 rounded-xl bg-card border border-border"
+            aria-label="Layout name"
+          />
+          <label className="flex items-center gap-1">
+            Rows
+            <input
+              type="number" min={1} max={MAX_LAYOUT_SIZE} value={rows}
+              onChange={e => resize(Number(e.target.value), cols)}
+              className="w-14 px-2 py-1.5 rounded-xl bg-card border border-border"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            Cols
+            <input
+              type="number" min={1} max={MAX_LAYOUT_SIZE} value={cols}
+              onChange={e => resize(rows, Number(e.target.value))}
+              className="w-14 px-2 py-1.5 rounded-xl bg-card border border-border"
+            />
+          </label>
+        </div>
+
+        {/* Tools */}
+        <div className="flex flex-col items-center gap-2">
+          <div className="flex gap-1.5">
+            {(Object.keys(TOOL_LABELS) as Tool[]).map(t => (
+              <button
+                key={t}
+                onClick={() => {
+                  setTool(t);
+                  if (t === "health") setBrushValue(DEFAULT_CONFIG.cornMaxHealth);
+                  if (t === "spawnWeight") setBrushValue(1);
+                }}
+                className={`px-3 py-1 rounded-lg font-display text-sm font-bold border-2 ${t === tool ? "border-primary bg-primary/10" : "border-border bg-card"}`}
+              >
+                {TOOL_LABELS[t]}
+              </button>
+            ))}
+          </div>
+          {tool === "kind" ? (
+            <div className="flex gap-1.5">
+              {CELL_KINDS.map(k => (
+                <button
+                  key={k}
+                  onClick={() => setBrushKind(k)}
+                  className={`px-3 py-1 rounded-lg font-display text-sm font-bold border-2 ${k === brushKind ? "border-primary bg-primary/10" : "border-border bg-card"}`}
+                >
+                  {KIND_INFO[k].emoji} {KIND_INFO[k].label}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <div className="flex gap-1.5">
+              {Array.from({ length: tool === "health" ? DEFAULT_CONFIG.cornMaxHealth + 1 : 6 }, (_, v) => (
+                <button
+                  key={v}
+                  onClick={() => setBrushValue(v)}
+                  className={`w-9 py-1 rounded-lg font-display text-sm font-bold border-2 ${v === brushValue ? "border-primary bg-primary/10" : "border-border bg-card"}`}
+                >
+                  {v}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Canvas */}
+        <div className="grid gap-2 touch-none" style={{ gridTemplateColumns: `repeat(${cols}, 1fr)` }}>
+          {layout.cells.flatMap((cells, r) =>
+            cells.map((cell, c) => (
+              <button
+                key={`${r}-${c}`}
+                onPointerDown={() => { setPainting(true); paintCell(r, c); }}
+                onPointerEnter={() => { if (painting) paintCell(r, c); }}
+                className={`relative aspect-square rounded-xl border-2 flex items-center justify-center text-2xl select-none ${cell.kind === "empty" ? "border-dashed border-border" : "bg-grass-light/30 border-grass/30"}`}
+                aria-label={`Cell ${r + 1},${c + 1}: ${KIND_INFO[cell.kind].label}`}
+              >
+                {cell.kind !== "empty" && KIND_INFO[cell.kind].emoji}
+                {describeCell(cell)}
+              </button>
+            )),
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex flex-wrap justify-center gap-2">
+          <button
+            onClick={startTest}
+            disabled={!layout.cells.some(row => row.some(cell => cell.kind === "corn"))}
+            className="px-6 py-3 bg-primary text-primary-foreground rounded-2xl font-display text-lg font-bold shadow-lg hover:scale-105 active:scale-95 transition-transform disabled:opacity-50"
+          >
+            Test Play ▶
+          </button>
+          <button
+            onClick={exportLayout}
+            className="px-4 py-3 bg-card rounded-2xl font-display font-bold border-2 border-border hover:scale-105 active:scale-95 transition-transform"
+          >
+            Save JSON 💾
+          </button>
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="px-4 py-3 bg-card rounded-2xl font-display font-bold border-2 border-border hover:scale-105 active:scale-95 transition-transform"
+          >
+            Load JSON 📂
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) importLayout(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+
+        <Link to="/" className="text-center text-muted-foreground font-body text-sm underline hover:text-foreground">
+          Back to Menu
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default Editor;
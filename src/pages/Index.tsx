@@ -1,93 +1,208 @@
-import { useState, useCallback, useRef, useEffect } from "react";
-import GameBoard, { PowerUp, PowerUpType } from "@/components/game/GameBoard";
+import { useState, useCallback, useEffect } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import GameBoard from "@/components/game/GameBoard";
+import StageSelect from "@/components/game/StageSelect";
+import VersusArena from "@/components/game/VersusArena";
+import VersusResults from "@/components/game/VersusResults";
+import OnlineVersus from "@/components/game/OnlineVersus";
+import CoopResults from "@/components/game/CoopResults";
+import { Progress } from "@/components/ui/progress";
+import { DEFAULT_CONFIG, EngineState, GameConfig } from "@/lib/game/engine";
+import { parseSeed, randomSeed } from "@/lib/game/random";
+import { dayKey, dailySeed, dailyLayout, getDailyScore, saveDailyScore } from "@/lib/game/daily";
+import { LAYOUTS } from "@/lib/game/layouts";
+import { WAVE_SETS } from "@/lib/game/waves";
+import { PRESETS, getPreset, loadHighScores, saveHighScore } from "@/lib/game/presets";
+import { coinsForRun, earnCoins, loadWallet, upgradeConfig } from "@/lib/game/shop";
+import { POWERUPS, POWERUP_TYPES } from "@/lib/game/powerups";
+import { STAGES, saveStageResult, stageConfig, Stage } from "@/lib/game/campaign";
+import { getStars } from "@/lib/game/objectives";
+import type { Boss } from "@/lib/game/boss";
+import type { VersusResult } from "@/lib/game/versus";
+import { onlineConfig, OnlineField } from "@/lib/game/online";
+import { COOP_PLAYERS, COOP_SEATS, PlayerStats } from "@/lib/game/coop";
+import { KEYBOARD_CONTROLS, POINTER_CONTROLS } from "@/lib/controls";
+import { saveReplay, ReplayLog } from "@/lib/game/replay";
 import { startBackgroundMusic, stopBackgroundMusic, playGameOverSound } from "@/lib/sounds";
 
-type GameState = "menu" | "playing" | "gameover";
+type GameState = "menu" | "stages" | "online" | "playing" | "paused" | "gameover";
+type RunMode = "endless" | "daily" | "practice" | "campaign" | "versus" | "coop";
+type PlayMode = "solo" | "coop" | "versus" | "online";
 
-const POWERUP_TYPES: PowerUpType[] = ["pesticide", "shield", "fertilizer"];
-const POWERUP_SPAWN_INTERVAL = 12000; // every 12s
-const POWERUP_LIFETIME = 10000; // expires after 10s
-const SHIELD_DURATION = 5000;
+const PLAY_MODES: { id: PlayMode; name: string }[] = [
+  { id: "solo", name: "🌽 Solo" },
+  { id: "coop", name: "🤝 Co-op" },
+  { id: "versus", name: "⚔️ Local Versus" },
+  { id: "online", name: "🌐 Online" },
+];
 
 const Index = () => {
   const [gameState, setGameState] = useState<GameState>("menu");
   const [score, setScore] = useState(0);
-  const [lives, setLives] = useState(5);
-  const [highScore, setHighScore] = useState(() => {
-    return parseInt(localStorage.getItem("corn-defender-high") || "0", 10);
-  });
+  const [lives, setLives] = useState(DEFAULT_CONFIG.startingLives);
+  const [presetId, setPresetId] = useState(PRESETS[1].id);
+  const [highScores, setHighScores] = useState(loadHighScores);
+  const highScore = highScores[presetId] ?? 0;
   const [difficulty, setDifficulty] = useState(1);
+  const [boss, setBoss] = useState<Boss | null>(null);
   const [gameKey, setGameKey] = useState(0);
-  const [powerUps, setPowerUps] = useState<PowerUp[]>([]);
-  const [shieldActive, setShieldActive] = useState(false);
-  const nextPuId = useRef(0);
-  const shieldTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [seed, setSeed] = useState(0);
+  const [seedInput, setSeedInput] = useState("");
+  const [runMode, setRunMode] = useState<RunMode>("endless");
+  const [runDay, setRunDay] = useState(dayKey);
+  const [replayId, setReplayId] = useState<string | null>(null);
+  const [layoutId, setLayoutId] = useState(LAYOUTS[0].id);
+  const [waveSetId, setWaveSetId] = useState(WAVE_SETS[0].id);
+  const [adaptive, setAdaptive] = useState(false);
+  const [weather, setWeather] = useState(true);
+  const [dayNight, setDayNight] = useState(true);
+  const [searchParams] = useSearchParams();
+  const debug = searchParams.has("debug");
+  const [runConfig, setRunConfig] = useState<Partial<GameConfig>>({ layout: LAYOUTS[0] });
+  const [runStage, setRunStage] = useState<Stage | null>(null);
+  const [stageStars, setStageStars] = useState(0);
+  const [coins, setCoins] = useState(() => loadWallet().coins);
+  const [coinsEarned, setCoinsEarned] = useState(0);
+  const [playMode, setPlayMode] = useState<PlayMode>("solo");
+  const [versusResult, setVersusResult] = useState<VersusResult | null>(null);
+  const [players, setPlayers] = useState<PlayerStats[]>([]);
 
-  const startGame = () => {
+  // Versus fields share everything but upgrades and adaptive difficulty, so neither side gets a leg up
+  const field: OnlineField = { preset: presetId, layout: layoutId, waves: waveSetId, weather, dayNight };
+  const fieldConfig = onlineConfig(field);
+
+  const configFor = (mode: RunMode): Partial<GameConfig> => {
+    if (mode === "endless") return upgradeConfig({ ...fieldConfig, adaptive });
+    if (mode === "versus") return fieldConfig;
+    if (mode === "coop") return { ...fieldConfig, players: COOP_PLAYERS };
+    return runConfig;
+  };
+
+  // Null when the typed seed won't parse, which holds the start button
+  const typedSeed = seedInput.trim() ? parseSeed(seedInput) : undefined;
+
+  const startGame = (
+    runSeed = typedSeed ?? randomSeed(),
+    mode: RunMode = playMode === "versus" || playMode === "coop" ? playMode : "endless",
+    config = configFor(mode),
+  ) => {
+    setSeed(runSeed);
+    setRunMode(mode);
+    setRunConfig(config);
     setScore(0);
-    setLives(5);
-    setDifficulty(1);
+    setLives(config.startingLives ?? DEFAULT_CONFIG.startingLives);
+    setDifficulty(config.startingLevel ?? 1);
+    setBoss(null);
+    setPlayers([]);
     setGameKey(k => k + 1);
-    setPowerUps([]);
-    setShieldActive(false);
     setGameState("playing");
     startBackgroundMusic();
   };
 
-  const handleGameOver = useCallback(() => {
+  // Only the first daily run of the day counts; it is recorded up front so
+  // quitting mid-run doesn't earn another scored attempt.
+  const startDaily = () => {
+    const day = dayKey();
+    setRunDay(day);
+    if (getDailyScore(day) === null) {
+      saveDailyScore(day, 0);
+      startGame(dailySeed(day), "daily", { layout: dailyLayout(day) });
+    } else {
+      startGame(dailySeed(day), "practice", { layout: dailyLayout(day) });
+    }
+  };
+
+  const startStage = (stage: Stage) => {
+    setRunStage(stage);
+    startGame(randomSeed(), "campaign", stageConfig(stage));
+  };
+
+  const nextStage = runStage && STAGES[STAGES.indexOf(runStage) + 1];
+
+  const handleGameOver = useCallback((replay: ReplayLog, game: EngineState) => {
+    stopBackgroundMusic();
+    playGameOverSound();
+    setGameState("gameover");
+    saveReplay(replay);
+    setReplayId(replay.id);
+    if (runMode === "daily") saveDailyScore(runDay, score);
+    // Practice runs replay a seed the player already knows, and co-op is two
+    // players' work, so neither pays
+    const earned = runMode === "practice" || runMode === "coop" ? 0 : coinsForRun(game);
+    setCoinsEarned(earned);
+    if (earned > 0) setCoins(earnCoins(earned).coins);
+    if (runMode === "campaign") {
+      setStageStars(getStars(game));
+      saveStageResult(runStage.id, getStars(game));
+    }
+    if (runMode === "endless") setHighScores(saveHighScore(presetId, score));
+  }, [score, runMode, runDay, runStage, presetId]);
+
+  const handleVersusOver = useCallback((result: VersusResult) => {
     stopBackgroundMusic();
     playGameOverSound();
-    setShieldActive(false);
-    if (shieldTimer.current) clearTimeout(shieldTimer.current);
+    setVersusResult(result);
     setGameState("gameover");
-    setHighScore(prev => {
-      const newHigh = Math.max(prev, score);
-      localStorage.setItem("corn-defender-high", String(newHigh));
-      return newHigh;
-    });
-  }, [score]);
-
-  const handleScoreChange = useCallback((newScore: number) => {
-    setScore(newScore);
-    setDifficulty(1 + Math.floor(newScore / 50));
   }, []);
 
-  // Spawn power-ups periodically
-  useEffect(() => {
+  const pauseGame = useCallback(() => {
     if (gameState !== "playing") return;
-    const interval = setInterval(() => {
-      const type = POWERUP_TYPES[Math.floor(Math.random() * POWERUP_TYPES.length)];
-      const id = nextPuId.current++;
-      setPowerUps(prev => {
-        // Max 3 power-ups at a time
-        const active = prev.filter(p => p.expiresAt > Date.now());
-        if (active.length >= 3) return active;
-        return [...active, { id, type, expiresAt: Date.now() + POWERUP_LIFETIME }];
-      });
-    }, POWERUP_SPAWN_INTERVAL);
-
-    return () => clearInterval(interval);
+    stopBackgroundMusic();
+    setGameState("paused");
   }, [gameState]);
 
-  // Expire power-ups
-  useEffect(() => {
-    if (gameState !== "playing") return;
-    const interval = setInterval(() => {
-      setPowerUps(prev => prev.filter(p => p.expiresAt > Date.now()));
-    }, 1000);
-    return () => clearInterval(interval);
+  const resumeGame = useCallback(() => {
+    if (gameState !== "paused") return;
+    startBackgroundMusic();
+    setGameState("playing");
   }, [gameState]);
 
-  const handleUsePowerUp = useCallback((id: number) => {
-    const pu = powerUps.find(p => p.id === id);
-    setPowerUps(prev => prev.filter(p => p.id !== id));
+  // Daily runs can only be retried as practice
+  const retryMode = runMode === "daily" ? "practice" : runMode;
 
-    if (pu?.type === "shield") {
-      setShieldActive(true);
-      if (shieldTimer.current) clearTimeout(shieldTimer.current);
-      shieldTimer.current = setTimeout(() => setShieldActive(false), SHIELD_DURATION);
+  // A restarted daily run keeps the score it got to; the retry is practice
+  const restartGame = () => {
+    stopBackgroundMusic();
+    if (runMode === "daily") saveDailyScore(runDay, score);
+    if (runMode === "endless" || runMode === "versus" || runMode === "coop") {
+      startGame(undefined, runMode);
+    } else if (runMode === "campaign") {
+      startGame(randomSeed(), "campaign");
+    } else {
+      startGame(seed, "practice");
     }
-  }, [powerUps]);
+  };
+
+  const quitToMenu = () => {
+    stopBackgroundMusic();
+    if (runMode === "daily") saveDailyScore(runDay, score);
+    setGameState("menu");
+  };
+
+  // Escape/P toggle pause; hiding the tab or leaving the window pauses
+  useEffect(() => {
+    if (gameState !== "playing" && gameState !== "paused") return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || (e.key !== "Escape" && e.key.toLowerCase() !== "p")) return;
+      if (gameState === "playing") pauseGame();
+      else resumeGame();
+    };
+    const onVisibilityChange = () => {
+      if (document.hidden) pauseGame();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("blur", pauseGame);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("blur", pauseGame);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [gameState, pauseGame, resumeGame]);
+
+  const todayScore = getDailyScore(dayKey());
+  const maxLives = runConfig.startingLives ?? DEFAULT_CONFIG.startingLives;
+  const wide = runMode === "versus" && gameState !== "menu" && gameState !== "stages";
 
   return (
     <div className="min-h-screen flex flex-col items-center justify-center bg-background px-4 py-8 overflow-hidden relative">
@@ -97,7 +212,7 @@ const Index = () => {
         <div className="absolute bottom-0 left-0 w-full h-48 bg-gradient-to-t from-grass/20 to-transparent" />
       </div>
 
-      <div className="relative z-10 w-full max-w-lg mx-auto">
+      <div className={`relative z-10 w-full mx-auto ${wide ? "max-w-5xl" : "max-w-lg"}`}>
         {/* Header */}
         <div className="text-center mb-6">
           <h1 className="game-title text-4xl sm:text-5xl font-bold text-primary mb-1">
@@ -115,77 +230,372 @@ const Index = () => {
             <p className="text-foreground/80 text-center max-w-xs font-body">
               Worms are attacking your corn field! Tap them quickly to protect your harvest.
             </p>
-            <div className="flex gap-4 text-2xl">
-              <span title="Pesticide - clears all worms">🧪</span>
-              <span title="Shield - blocks damage">🛡️</span>
-              <span title="Fertilizer - heals corn">💚</span>
+            <div className="flex flex-wrap justify-center gap-3 text-2xl">
+              {POWERUP_TYPES.map(type => (
+                <span key={type} title={`${POWERUPS[type].label} - ${POWERUPS[type].description}`}>{POWERUPS[type].emoji}</span>
+              ))}
+            </div>
+            <p className="text-muted-foreground text-xs font-body">
+              Power-ups spawn during gameplay — press the number keys to use them. Tap ripe 🌽 to harvest it for bonus points, and spend points on defenses below the field.
+            </p>
+            <div className="flex flex-wrap justify-center gap-1.5" role="radiogroup" aria-label="Mode">
+              {PLAY_MODES.map(m => (
+                <button
+                  key={m.id}
+                  role="radio"
+                  aria-checked={m.id === playMode}
+                  onClick={() => setPlayMode(m.id)}
+                  className={`px-3 py-1 rounded-lg font-display text-sm font-bold border-2 ${m.id === playMode ? "border-primary bg-primary/10" : "border-border bg-card"}`}
+                >
+                  {m.name}
+                </button>
+              ))}
+            </div>
+            {playMode === "versus" && (
+              <p className="text-muted-foreground text-xs font-body text-center max-w-xs">
+                Player 1 plays with WASD and Space, Player 2 with the mouse. Every third hit of a combo sends worms to the other field — last field standing wins.
+              </p>
+            )}
+            {playMode === "coop" && (
+              <p className="text-muted-foreground text-xs font-body text-center max-w-xs">
+                Defend one field together: Player 1 with the mouse, Player 2 with WASD and Space. Lives are shared, and power-ups land on the field for whoever grabs them first.
+              </p>
+            )}
+            {playMode === "online" && (
+              <p className="text-muted-foreground text-xs font-body text-center max-w-xs">
+                Play against someone on another device through a versus server. The field, weather and difficulty you pick below are offered to your opponent.
+              </p>
+            )}
+            <div className="flex flex-wrap justify-center gap-1.5" role="radiogroup" aria-label="Difficulty">
+              {PRESETS.map(p => (
+                <button
+                  key={p.id}
+                  role="radio"
+                  aria-checked={p.id === presetId}
+                  onClick={() => setPresetId(p.id)}
+                  className={`px-3 py-1 rounded-lg font-display text-sm font-bold border-2 ${p.id === presetId ? "border-primary bg-primary/10" : "border-border bg-card"}`}
+                >
+                  {p.emoji} {p.name}
+                </button>
+              ))}
             </div>
-            <p className="text-muted-foreground text-xs font-body">Power-ups spawn during gameplay!</p>
             {highScore > 0 && (
               <p className="text-secondary font-display font-bold text-lg">
-                🏆 Best: {highScore}
+                🏆 Best ({getPreset(presetId).name}): {highScore}
               </p>
             )}
             <button
-              onClick={startGame}
-              className="px-8 py-4 bg-primary text-primary-foreground rounded-2xl font-display text-xl font-bold shadow-lg hover:scale-105 active:scale-95 transition-transform"
+              onClick={() => (playMode === "online" ? setGameState("online") : startGame())}
+              disabled={playMode !== "online" && typedSeed === null}
+              className="px-8 py-4 bg-primary text-primary-foreground rounded-2xl font-display text-xl font-bold shadow-lg hover:scale-105 active:scale-95 transition-transform disabled:opacity-50 disabled:hover:scale-100"
             >
               Start Game 🚀
             </button>
+            <button
+              onClick={() => setGameState("stages")}
+              className="px-6 py-3 bg-card text-foreground rounded-2xl font-display text-lg font-bold border-2 border-secondary shadow-md hover:scale-105 active:scale-95 transition-transform"
+            >
+              Campaign 🗺️
+            </button>
+            <div className="flex flex-wrap justify-center gap-1.5" role="radiogroup" aria-label="Field">
+              {LAYOUTS.map(l => (
+                <button
+                  key={l.id}
+                  role="radio"
+                  aria-checked={l.id === layoutId}
+                  onClick={() => setLayoutId(l.id)}
+                  className={`px-3 py-1 rounded-lg font-display text-xs font-bold border-2 ${l.id === layoutId ? "border-primary bg-primary/10" : "border-border bg-card"}`}
+                >
+                  {l.name}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap justify-center gap-1.5" role="radiogroup" aria-label="Waves">
+              {WAVE_SETS.map(w => (
+                <button
+                  key={w.id}
+                  role="radio"
+                  aria-checked={w.id === waveSetId}
+                  onClick={() => setWaveSetId(w.id)}
+                  className={`px-3 py-1 rounded-lg font-display text-xs font-bold border-2 ${w.id === waveSetId ? "border-primary bg-primary/10" : "border-border bg-card"}`}
+                >
+                  🌊 {w.name}
+                </button>
+              ))}
+            </div>
+            <button
+              aria-pressed={adaptive}
+              onClick={() => setAdaptive(a => !a)}
+              title="Speeds up or slows down to match how you're playing"
+              className={`px-3 py-1 rounded-lg font-display text-xs font-bold border-2 ${adaptive ? "border-primary bg-primary/10" : "border-border bg-card"}`}
+            >
+              🧠 Adaptive difficulty {adaptive ? "on" : "off"}
+            </button>
+            <button
+              aria-pressed={weather}
+              onClick={() => setWeather(w => !w)}
+              title="Rain, drought, wind and fog roll over the field"
+              className={`px-3 py-1 rounded-lg font-display text-xs font-bold border-2 ${weather ? "border-primary bg-primary/10" : "border-border bg-card"}`}
+            >
+              🌦️ Weather {weather ? "on" : "off"}
+            </button>
+            <button
+              aria-pressed={dayNight}
+              onClick={() => setDayNight(d => !d)}
+              title="Nights are dark but pay more: light the way with your pointer or the arrow keys"
+              className={`px-3 py-1 rounded-lg font-display text-xs font-bold border-2 ${dayNight ? "border-primary bg-primary/10" : "border-border bg-card"}`}
+            >
+              🌙 Day & night {dayNight ? "on" : "off"}
+            </button>
+            <input
+              value={seedInput}
+              onChange={e => setSeedInput(e.target.value)}
+              placeholder="Seed (optional)"
+              title={typedSeed === null ? "Number seeds go up to 4294967295" : undefined}
+              className={`w-40 px-3 py-1.5 rounded-xl bg-card border text-center text-sm font-body ${typedSeed === null ? "border-destructive" : "border-border"}`}
+              aria-label="Seed"
+              aria-invalid={typedSeed === null}
+            />
+            <div className="flex flex-col items-center gap-1">
+              <button
+                onClick={startDaily}
+                className="px-6 py-3 bg-secondary text-secondary-foreground rounded-2xl font-display text-lg font-bold shadow-md hover:scale-105 active:scale-95 transition-transform"
+              >
+                {todayScore === null ? "Daily Challenge 📅" : "Practice Daily 📅"}
+              </button>
+              <p className="text-muted-foreground text-xs font-body">
+                {todayScore === null ? "Today's challenge: not played yet" : `✅ Today's challenge done: ${todayScore}`}
+              </p>
+            </div>
+            <div className="flex gap-4">
+              <Link to="/shop" className="text-muted-foreground font-body text-xs underline hover:text-foreground">
+                Shop 🏪 · 🪙 {coins}
+              </Link>
+              <Link to="/editor" className="text-muted-foreground font-body text-xs underline hover:text-foreground">
+                Field Editor ✏️
+              </Link>
+            </div>
           </div>
         )}
 
+        {/* Stage select */}
+        {gameState === "stages" && (
+          <StageSelect onSelect={startStage} onBack={() => setGameState("menu")} />
+        )}
+
+        {/* Online versus */}
+        {gameState === "online" && (
+          <OnlineVersus field={field} onExit={() => setGameState("menu")} />
+        )}
+
         {/* Playing */}
-        {gameState === "playing" && (
-          <div>
-            {/* HUD */}
-            <div className="flex justify-between items-center mb-4 px-2">
-              <div className="font-display font-bold text-lg text-foreground">
-                ⭐ {score}
-              </div>
-              <div className="font-display font-bold text-lg text-foreground">
-                {"❤️".repeat(Math.max(0, lives))}{"🖤".repeat(Math.max(0, 5 - lives))}
-              </div>
-            </div>
+        {(gameState === "playing" || gameState === "paused") && (
+          <div className="relative">
+            {runMode === "versus" ? (
+              <>
+                <div className="flex justify-center mb-4">
+                  <button
+                    onClick={pauseGame}
+                    className="px-3 py-1 rounded-lg bg-card border border-border font-display text-sm font-bold hover:scale-105 active:scale-95 transition-transform"
+                    aria-label="Pause"
+                  >
+                    ⏸
+                  </button>
+                </div>
+                <VersusArena
+                  key={gameKey}
+                  seed={seed}
+                  config={runConfig}
+                  paused={gameState === "paused"}
+                  onFinish={handleVersusOver}
+                />
+              </>
+            ) : (
+              <>
+                {/* HUD */}
+                <div className="flex justify-between items-center mb-4 px-2">
+                  <div className="font-display font-bold text-lg text-foreground">
+                    ⭐ {score}
+                  </div>
+                  <button
+                    onClick={pauseGame}
+                    className="px-3 py-1 rounded-lg bg-card border border-border font-display text-sm font-bold hover:scale-105 active:scale-95 transition-transform"
+                    aria-label="Pause"
+                  >
+                    ⏸
+                  </button>
+                  <div className="font-display font-bold text-lg text-foreground">
+                    {"❤️".repeat(Math.max(0, lives))}{"🖤".repeat(Math.max(0, maxLives - lives))}
+                  </div>
+                </div>
 
-            <GameBoard
-              key={gameKey}
-              onScoreChange={handleScoreChange}
-              onLivesChange={setLives}
-              onGameOver={handleGameOver}
-              isPlaying={gameState === "playing"}
-              difficulty={difficulty}
-              powerUps={powerUps}
-              onUsePowerUp={handleUsePowerUp}
-              shieldActive={shieldActive}
-            />
+                {runMode === "coop" && (
+                  <div className="flex justify-between items-center mb-4 px-2 font-display text-xs font-bold">
+                    {COOP_SEATS.map((seat, i) => (
+                      <span key={seat.name} className={seat.text} title={seat.hint}>
+                        {seat.emoji} {seat.name} · 🐛 {players[i]?.squashed ?? 0}
+                      </span>
+                    ))}
+                  </div>
+                )}
 
-            <div className="text-center mt-3">
-              <span className="text-xs text-muted-foreground font-body">
-                Level {difficulty}
-              </span>
-            </div>
+                {/* Boss health */}
+                {boss && (
+                  <div className="mb-4 px-2 bounce-in">
+                    <div className="flex justify-between font-display text-sm font-bold mb-1">
+                      <span className="text-destructive">🐛 Giant Caterpillar · Phase {boss.phase}</span>
+                      <span className="text-foreground">{boss.hp}/{boss.maxHp}</span>
+                    </div>
+                    <Progress value={(boss.hp / boss.maxHp) * 100} className="h-3" aria-label="Boss health" />
+                  </div>
+                )}
+
+                <GameBoard
+                  key={gameKey}
+                  onScoreChange={setScore}
+                  onDifficultyChange={setDifficulty}
+                  onLivesChange={setLives}
+                  onBossChange={setBoss}
+                  onPlayersChange={setPlayers}
+                  onGameOver={handleGameOver}
+                  isPlaying
+                  paused={gameState === "paused"}
+                  seed={seed}
+                  config={runConfig}
+                  debug={debug}
+                  controls={runMode === "coop" ? POINTER_CONTROLS : undefined}
+                  partner={runMode === "coop" ? KEYBOARD_CONTROLS : undefined}
+                />
+
+                <div className="text-center mt-3">
+                  <span className="text-xs text-muted-foreground font-body">
+                    Level {difficulty} · {runConfig.layout?.name}
+                    {runMode === "endless" && ` · ${getPreset(presetId).name}`}
+                    {runStage && runMode === "campaign" && ` · ${runStage.name}`}
+                    {runMode === "daily" && " · Daily Challenge"}
+                    {runMode === "practice" && " · Daily Practice"}
+                    {runMode === "coop" && " · Co-op"}
+                  </span>
+                </div>
+              </>
+            )}
+
+            {/* Pause overlay */}
+            {gameState === "paused" && (
+              <div className="absolute -inset-2 z-40 rounded-2xl bg-background/80 backdrop-blur-sm flex flex-col items-center justify-center gap-3 bounce-in">
+                <h2 className="font-display text-3xl font-bold text-primary">Paused ⏸</h2>
+                <button
+                  onClick={resumeGame}
+                  className="px-8 py-3 bg-primary text-primary-foreground rounded-2xl font-display text-lg font-bold shadow-lg hover:scale-105 active:scale-95 transition-transform"
+                >
+                  Resume ▶
+                </button>
+                <button
+                  onClick={restartGame}
+                  className="text-muted-foreground font-body text-sm underline hover:text-foreground"
+                >
+                  Restart
+                </button>
+                <button
+                  onClick={quitToMenu}
+                  className="text-muted-foreground font-body text-sm underline hover:text-foreground"
+                >
+                  Quit to Menu
+                </button>
+                <p className="text-muted-foreground text-xs font-body">Press Esc or P to resume</p>
+              </div>
+            )}
           </div>
         )}
 
+        {/* Versus results */}
+        {gameState === "gameover" && runMode === "versus" && versusResult && (
+          <VersusResults
+            result={versusResult}
+            onRematch={() => startGame(randomSeed(), "versus")}
+            onMenu={() => setGameState("menu")}
+          />
+        )}
+
         {/* Game Over */}
-        {gameState === "gameover" && (
+        {gameState === "gameover" && runMode !== "versus" && (
           <div className="flex flex-col items-center gap-5 bounce-in">
-            <div className="text-6xl">😵</div>
-            <h2 className="font-display text-3xl font-bold text-accent">Game Over!</h2>
+            {runMode === "campaign" ? (
+              <>
+                <div className="text-6xl">{stageStars > 0 ? "🏆" : "😵"}</div>
+                <h2 className="font-display text-3xl font-bold text-accent">
+                  {stageStars > 0 ? "Stage Clear!" : "Stage Failed"}
+                </h2>
+                {stageStars > 0 && (
+                  <p className="text-4xl">{"⭐".repeat(stageStars)}{"☆".repeat(3 - stageStars)}</p>
+                )}
+              </>
+            ) : (
+              <>
+                <div className="text-6xl">😵</div>
+                <h2 className="font-display text-3xl font-bold text-accent">Game Over!</h2>
+              </>
+            )}
             <div className="bg-card rounded-2xl p-6 shadow-lg text-center border border-border">
               <p className="font-display text-4xl font-bold text-secondary mb-2">{score}</p>
               <p className="text-muted-foreground font-body text-sm">points scored</p>
-              {score >= highScore && score > 0 && (
+              {runMode === "endless" && score >= highScore && score > 0 && (
                 <p className="text-accent font-display font-bold mt-2">🎉 New High Score!</p>
               )}
+              {runMode === "daily" && (
+                <p className="text-accent font-display font-bold mt-2">📅 Daily score saved!</p>
+              )}
+              {runMode === "practice" && (
+                <p className="text-muted-foreground font-body text-sm mt-2">Practice run — not scored</p>
+              )}
+              {coinsEarned > 0 && (
+                <p className="text-secondary font-display font-bold mt-2">+{coinsEarned} 🪙 · {coins} total</p>
+              )}
+              <p className="text-muted-foreground font-body text-xs mt-3">Seed: {seed}</p>
             </div>
+            {runMode === "coop" && players.length > 0 && <CoopResults players={players} />}
+            {runMode === "campaign" && stageStars > 0 && nextStage && (
+              <button
+                onClick={() => startStage(nextStage)}
+                className="px-8 py-4 bg-primary text-primary-foreground rounded-2xl font-display text-xl font-bold shadow-lg hover:scale-105 active:scale-95 transition-transform"
+              >
+                Next Stage ➡️
+              </button>
+            )}
             <button
-              onClick={startGame}
+              onClick={() => startGame(randomSeed(), runMode === "campaign" || runMode === "coop" ? runMode : "endless")}
               className="px-8 py-4 bg-primary text-primary-foreground rounded-2xl font-display text-xl font-bold shadow-lg hover:scale-105 active:scale-95 transition-transform"
             >
               Play Again 🔄
             </button>
+            <button
+              onClick={() => startGame(seed, retryMode)}
+              className="text-muted-foreground font-body text-sm underline hover:text-foreground"
+            >
+              Retry this seed
+            </button>
+            {replayId && (
+              <Link
+                to={`/replay/${replayId}`}
+                className="text-muted-foreground font-body text-sm underline hover:text-foreground"
+              >
+                Watch Replay 🎬
+              </Link>
+            )}
+            {runMode === "campaign" && (
+              <button
+                onClick={() => setGameState("stages")}
+                className="text-muted-foreground font-body text-sm underline hover:text-foreground"
+              >
+                Stage Select 🗺️
+              </button>
+            )}
+            <button
+              onClick={() => setGameState("menu")}
+              className="text-muted-foreground font-body text-sm underline hover:text-foreground"
+            >
+              Back to Menu
+            </button>
           </div>
         )}
       </div>
@@ -0,0 +1,123 @@
+import { useState, useMemo, useRef } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import GameField from "@/components/game/GameField";
+import { Slider } from "@/components/ui/slider";
+import { useGameLoop } from "@/hooks/use-game-loop";
+import { TICK_MS } from "@/lib/game/engine";
+import { loadReplay, startReplay, replayTick, replayTo } from "@/lib/game/replay";
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+const Replay = () => {
+  const { id } = useParams();
+  const [searchParams] = useSearchParams();
+  const log = useMemo(() => loadReplay(id ?? ""), [id]);
+  const [game, setGame] = useState(() => log && startReplay(log));
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const gameRef = useRef(game);
+  gameRef.current = game;
+
+  // Re-simulate the whole log once to check the recorded score holds up
+  const verified = useMemo(() => log && replayTo(log, log.duration).score === log.score, [log]);
+
+  const finished = !game || game.gameOver || game.time >= log.duration;
+
+  useGameLoop(ticks => {
+    let next = gameRef.current;
+    for (let i = 0; i < ticks && !next.gameOver && next.time < log.duration; i++) {
+      next = replayTick(log, next);
+    }
+    setGame(next);
+  }, !!log && playing && !finished, speed);
+
+  if (!log) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background px-4">
+        <div className="text-6xl">🎬</div>
+        <p className="font-display text-xl font-bold text-foreground">Replay not found</p>
+        <Link to="/" className="text-primary underline hover:text-primary/90">
+          Back to the field
+        </Link>
+      </div>
+    );
+  }
+
+  const togglePlay = () => {
+    if (finished) setGame(startReplay(log));
+    setPlaying(p => finished || !p);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-background px-4 py-8">
+      <div className="w-full max-w-lg mx-auto">
+        <div className="text-center mb-6">
+          <h1 className="game-title text-3xl sm:text-4xl font-bold text-primary mb-1">🎬 Replay</h1>
+          <p className="text-muted-foreground font-body text-sm">
+            Seed {log.seed} · {new Date(log.recordedAt).toLocaleString()} · Final score {log.score}
+          </p>
+          <p className="font-body text-xs mt-1">
+            {verified ? "✅ Score verified" : "⚠️ Replay does not reproduce the recorded score"}
+          </p>
+        </div>
+
+        {/* HUD */}
+        <div className="flex justify-between items-center mb-4 px-2">
+          <div className="font-display font-bold text-lg text-foreground">⭐ {game.score}</div>
+          <div className="font-display font-bold text-lg text-foreground">
+            {"❤️".repeat(Math.max(0, game.lives))}{"🖤".repeat(Math.max(0, game.config.startingLives - game.lives))}
+          </div>
+        </div>
+
+        <GameField game={game} debug={searchParams.has("debug")} />
+
+        {/* Playback controls */}
+        <div className="mt-6 flex flex-col gap-3">
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-muted-foreground font-body w-10">{formatTime(game.time)}</span>
+            <Slider
+              value={[game.time]}
+              max={log.duration}
+              step={TICK_MS}
+              onValueChange={([time]) => setGame(replayTo(log, time))}
+              aria-label="Scrub"
+            />
+            <span className="text-xs text-muted-foreground font-body w-10 text-right">{formatTime(log.duration)}</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <button
+              onClick={togglePlay}
+              className="px-5 py-2 bg-primary text-primary-foreground rounded-xl font-display font-bold shadow-md hover:scale-105 active:scale-95 transition-transform"
+            >
+              {playing && !finished ? "⏸ Pause" : "▶ Play"}
+            </button>
+            <div className="flex gap-1">
+              {SPEEDS.map(s => (
+                <button
+                  key={s}
+                  onClick={() => setSpeed(s)}
+                  className={`px-3 py-1.5 rounded-lg font-display text-sm font-bold border-2 ${s === speed ? "border-primary bg-primary/10" : "border-border bg-card"}`}
+                >
+                  {s}x
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="text-center">
+            <span className="text-xs text-muted-foreground font-body">Level {game.difficulty}</span>
+          </div>
+          <Link to="/" className="text-center text-muted-foreground font-body text-sm underline hover:text-foreground">
+            Back to Menu
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Replay;
@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
+import { playPowerUpSound } from "@/lib/sounds";
+import { UPGRADES, buyUpgrade, loadWallet, upgradeCost, upgradeLevel, Upgrade } from "@/lib/game/shop";
+
+const Shop = () => {
+  const [wallet, setWallet] = useState(loadWallet);
+
+  const buy = (upgrade: Upgrade) => {
+    try {
+      setWallet(buyUpgrade(upgrade.id));
+      playPowerUpSound();
+      toast.success(`${upgrade.emoji} ${upgrade.name} upgraded!`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-background px-4 py-8">
+      <div className="w-full max-w-lg mx-auto flex flex-col gap-5">
+        <div className="text-center">
+          <h1 className="game-title text-3xl sm:text-4xl font-bold text-primary mb-1">🏪 Farm Shop</h1>
+          <p className="text-muted-foreground font-body text-sm">Upgrades last forever and apply to endless runs.</p>
+          <p className="mt-3 font-display text-2xl font-bold text-secondary">🪙 {wallet.coins}</p>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          {UPGRADES.map(upgrade => {
+            const level = upgradeLevel(wallet, upgrade.id);
+            const cost = upgradeCost(wallet, upgrade);
+            return (
+              <div
+                key={upgrade.id}
+                className="flex items-center justify-between gap-3 px-4 py-3 rounded-2xl bg-card border-2 border-border shadow-sm"
+              >
+                <div className="flex items-center gap-3">
+                  <span className="text-3xl">{upgrade.emoji}</span>
+                  <div>
+                    <p className="font-display font-bold text-foreground">{upgrade.name}</p>
+                    <p className="text-muted-foreground font-body text-xs">{upgrade.description}</p>
+                    <p className="font-display text-xs text-accent mt-0.5" aria-label={`Level ${level} of ${upgrade.maxLevel}`}>
+                      {"●".repeat(level)}{"○".repeat(upgrade.maxLevel - level)}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => buy(upgrade)}
+                  disabled={cost === null || cost > wallet.coins}
+                  className="px-4 py-2 bg-primary text-primary-foreground rounded-xl font-display text-sm font-bold shadow-md whitespace-nowrap hover:scale-105 active:scale-95 transition-transform disabled:opacity-50 disabled:hover:scale-100"
+                >
+                  {cost === null ? "Maxed" : `🪙 ${cost}`}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <Link to="/" className="text-center text-muted-foreground font-body text-sm underline hover:text-foreground">
+          Back to Menu
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default Shop;
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { createGame, step, dispatch, TICK_MS, EngineState } from "@/lib/game/engine";
+import { ADJUST_INTERVAL, CHALLENGE_RANGE } from "@/lib/game/adaptive";
+
+const SEED = 9;
+
+// Squashes everything the moment it appears, or lets everything through
+const play = (state: EngineState, ms: number, squashAll: boolean) => {
+  let game = state;
+  for (let t = 0; t < ms && !game.gameOver; t += TICK_MS) {
+    game = step(game, TICK_MS);
+    if (squashAll) game.worms.forEach(w => { game = dispatch(game, { type: "squash", wormId: w.id }); });
+  }
+  return game;
+};
+
+describe("adaptive difficulty", () => {
+  it("is off unless the config asks for it", () => {
+    expect(createGame({}, SEED).adaptive).toBeNull();
+  });
+
+  it("ramps up the challenge for a player who squashes everything at once", () => {
+    const game = play(createGame({ adaptive: true }, SEED), 30 * ADJUST_INTERVAL, true);
+    expect(game.adaptive.challenge).toBeGreaterThan(1);
+    expect(game.adaptive.reaction).toBeLessThan(0.2);
+  });
+
+  it("eases off for a player who lets worms through", () => {
+    const game = play(createGame({ adaptive: true, startingLives: 99 }, SEED), 30 * ADJUST_INTERVAL, false);
+    expect(game.adaptive.challenge).toBeLessThan(1);
+    expect(game.adaptive.challenge).toBeGreaterThanOrEqual(CHALLENGE_RANGE[0]);
+    expect(game.adaptive.missRate).toBeGreaterThan(0.5);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { createGame, step, dispatch, cellKey, EngineState } from "@/lib/game/engine";
+import { PHASE_TIMING, bossMaxHp, bossReward, Boss } from "@/lib/game/boss";
+
+const SEED = 5;
+
+const withBoss = (game: EngineState, overrides: Partial<Boss> = {}): EngineState => {
+  const boss: Boss = {
+    number: 1, row: 2, col: 1, width: 3, hp: bossMaxHp(1), maxHp: bossMaxHp(1), phase: 1,
+    nextAttackAt: game.time + PHASE_TIMING[1].attackInterval, nextMoveAt: Infinity, ...overrides,
+  };
+  return { ...game, boss };
+};
+
+describe("boss fights", () => {
+  it("spawns a boss when the level reaches the next boss level", () => {
+    let game = createGame({ startingLevel: 4 }, SEED);
+    expect(game.nextBossLevel).toBe(5);
+    game = step({ ...game, difficulty: 5 }, 100);
+    expect(game.events.map(e => e.type)).toContain("bossSpawned");
+    expect(game.boss?.width).toBe(3);
+    expect(game.nextBossLevel).toBe(10);
+  });
+
+  it("never spawns a boss when bosses are off", () => {
+    const game = step({ ...createGame({ bossEvery: 0 }, SEED), difficulty: 5 }, 100);
+    expect(game.boss).toBeNull();
+  });
+
+  it("chomps the corn under it and costs a life", () => {
+    let game = withBoss(createGame({}, SEED));
+    game = step(game, PHASE_TIMING[1].attackInterval);
+    expect(game.events.map(e => e.type)).toContain("bossAttack");
+    expect(game.lives).toBe(game.config.startingLives - 1);
+    [1, 2, 3].forEach(c => expect(game.cornHealth[cellKey(2, c)]).toBe(game.config.cornMaxHealth - 1));
+    expect(game.cornHealth[cellKey(1, 2)]).toBe(game.config.cornMaxHealth);
+  });
+
+  it("is held off by a running shield", () => {
+    let game = withBoss(createGame({}, SEED));
+    game = { ...game, effects: [{ type: "shield", until: game.time + 5000 }] };
+    game = step(game, PHASE_TIMING[1].attackInterval);
+    expect(game.events).toContainEqual(expect.objectContaining({ type: "bossAttack", blocked: true }));
+    expect(game.lives).toBe(game.config.startingLives);
+  });
+
+  it("slams neighboring rows too from phase 2", () => {
+    let game = withBoss(createGame({}, SEED), { row: 1, phase: 2 });
+    game = step(game, PHASE_TIMING[1].attackInterval);
+    expect(game.cornHealth[cellKey(0, 2)]).toBe(game.config.cornMaxHealth - 1);
+    expect(game.cornHealth[cellKey(2, 2)]).toBe(game.config.cornMaxHealth - 1);
+    expect(game.cornHealth[cellKey(0, 0)]).toBe(game.config.cornMaxHealth);
+  });
+
+  it("enters a new phase as it loses health", () => {
+    let game = withBoss(createGame({}, SEED));
+    for (let i = 0; i < 5; i++) game = dispatch(game, { type: "hitBoss" });
+    expect(game.boss?.phase).toBe(2);
+    expect(game.events.map(e => e.type)).toEqual(["bossPhase"]);
+  });
+
+  it("rewards points and a life when defeated", () => {
+    let game = withBoss(createGame({}, SEED));
+    for (let i = 0; i < bossMaxHp(1); i++) game = dispatch(game, { type: "hitBoss" });
+    expect(game.boss).toBeNull();
+    expect(game.bossesDefeated).toBe(1);
+    expect(game.score).toBe(bossReward(1).points);
+    expect(game.lives).toBe(game.config.startingLives + bossReward(1).lives);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { createGame, step, dispatch, slotPowerUp, EngineState } from "@/lib/game/engine";
+import { COOP_PLAYERS, contributions } from "@/lib/game/coop";
+
+const SEED = 42;
+
+const coopGame = () => createGame({ players: COOP_PLAYERS }, SEED);
+
+const withWorm = (state: EngineState, id: number) => ({
+  ...state,
+  worms: [{ id, type: "worm" as const, row: 0, col: 0, createdAt: state.time, hp: 1, movedAt: state.time, from: null, path: [] }],
+});
+
+// Steps until the first power-up lands
+const spawnPowerUp = (state: EngineState) => step(state, state.config.powerUpSpawnInterval);
+
+describe("co-op", () => {
+  it("credits squashes and points to whoever made them", () => {
+    let game = dispatch(withWorm(coopGame(), 0), { type: "squash", wormId: 0, player: 1 });
+    game = dispatch(withWorm(game, 1), { type: "squash", wormId: 1, player: 1 });
+    expect(game.players[1]).toEqual({ squashed: 2, points: game.score, powerUps: 0 });
+    expect(game.players[0]).toEqual({ squashed: 0, points: 0, powerUps: 0 });
+  });
+
+  it("drops power-ups on the field for the first player to grab", () => {
+    let game = spawnPowerUp(coopGame());
+    const [powerUp] = game.powerUps;
+    expect(powerUp.owner).toBeNull();
+    expect(game.cornHealth[`${powerUp.cell[0]}-${powerUp.cell[1]}`]).toBeGreaterThan(0);
+    expect(slotPowerUp(game, powerUp.type, 0)).toBeUndefined();
+
+    game = dispatch(game, { type: "claimPowerUp", powerUpId: powerUp.id, player: 0 });
+    game = dispatch(game, { type: "claimPowerUp", powerUpId: powerUp.id, player: 1 });
+    expect(game.powerUps[0].owner).toBe(0);
+    expect(game.players.map(p => p.powerUps)).toEqual([1, 0]);
+
+    // Only the player who grabbed it can use it
+    expect(dispatch(game, { type: "usePowerUp", powerUpId: powerUp.id, player: 1 }).powerUps).toHaveLength(1);
+    expect(dispatch(game, { type: "usePowerUp", powerUpId: powerUp.id, player: 0 }).powerUps).toHaveLength(0);
+  });
+
+  it("keeps solo power-ups straight in the inventory", () => {
+    const [powerUp] = spawnPowerUp(createGame({}, SEED)).powerUps;
+    expect(powerUp.owner).toBeUndefined();
+    expect(powerUp.cell).toBeUndefined();
+  });
+
+  it("splits the points into shares", () => {
+    const stats = (points: number) => ({ squashed: 0, points, powerUps: 0 });
+    expect(contributions([stats(30), stats(10)])).toEqual([75, 25]);
+    expect(contributions([stats(0), stats(0)])).toEqual([50, 50]);
+  });
+});
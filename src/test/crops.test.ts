@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { createGame, step, dispatch, EngineState, Worm } from "@/lib/game/engine";
+import { GROWTH_TIME, HARVEST_POINTS, growCrop, plant } from "@/lib/game/crops";
+import { parseLayout } from "@/lib/game/layouts";
+
+const SEED = 4;
+
+const ripen = (game: EngineState, key: string): EngineState => ({
+  ...game, crops: { ...game.crops, [key]: plant(game.time, "ripe") },
+});
+
+describe("crops", () => {
+  it("grows from seedling to stalk to ripe", () => {
+    const seedling = plant(0);
+    expect(growCrop(seedling, GROWTH_TIME.seedling - 1).stage).toBe("seedling");
+    expect(growCrop(seedling, GROWTH_TIME.seedling).stage).toBe("stalk");
+    expect(growCrop(seedling, GROWTH_TIME.seedling + GROWTH_TIME.stalk)).toEqual(
+      plant(GROWTH_TIME.seedling + GROWTH_TIME.stalk, "ripe"),
+    );
+  });
+
+  it("harvests ripe corn for points and replants it", () => {
+    let game = dispatch(createGame({}, SEED), { type: "harvest", row: 0, col: 0 });
+    expect(game.score).toBe(0);
+    game = dispatch(ripen(game, "0-0"), { type: "harvest", row: 0, col: 0 });
+    expect(game.score).toBe(HARVEST_POINTS);
+    expect(game.crops["0-0"].stage).toBe("seedling");
+    expect(game.events).toContainEqual({ type: "harvest", row: 0, col: 0, points: HARVEST_POINTS });
+  });
+
+  it("can't harvest under a worm", () => {
+    const worm: Worm = { id: 1, type: "worm", row: 0, col: 0, createdAt: 0, hp: 1, movedAt: 0, from: null, path: [] };
+    const game = dispatch({ ...ripen(createGame({}, SEED), "0-0"), worms: [worm] }, { type: "harvest", row: 0, col: 0 });
+    expect(game.score).toBe(0);
+  });
+
+  it("draws worms to ripe corn", () => {
+    const field = createGame({ layout: parseLayout("pair", "Pair", ["##"]) }, SEED);
+    let game = ripen({ ...field, crops: { "0-0": plant(0) } }, "0-1");
+    let ripeSpawns = 0;
+    for (let i = 0; i < 30; i++) {
+      game = step({ ...game, worms: [] }, 500);
+      game.events.forEach(e => { if (e.type === "wormSpawned" && e.worm.col === 1) ripeSpawns++; });
+    }
+    expect(ripeSpawns).toBeGreaterThan(game.nextWormId / 2);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { dayKey, dailySeed, dailyLayout, getDailyScore, saveDailyScore } from "@/lib/game/daily";
+
+describe("daily challenge", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("keys the day by its UTC date", () => {
+    expect(dayKey(new Date(Date.UTC(2024, 2, 5, 12)))).toBe("2024-03-05");
+    // Just before and after midnight UTC, whatever the local time zone says
+    expect(dayKey(new Date("2024-12-31T23:59:59Z"))).toBe("2024-12-31");
+    expect(dayKey(new Date("2025-01-01T00:00:00Z"))).toBe("2025-01-01");
+  });
+
+  it("gives everyone the same seed and layout for a day", () => {
+    expect(dailySeed("2024-03-05")).toBe(dailySeed("2024-03-05"));
+    expect(dailySeed("2024-03-05")).not.toBe(dailySeed("2024-03-06"));
+    expect(dailyLayout("2024-03-05")).toBe(dailyLayout("2024-03-05"));
+  });
+
+  it("keeps the one scored attempt a day", () => {
+    expect(getDailyScore("2024-03-05")).toBeNull();
+    // Starting the run claims the attempt before any points are in
+    saveDailyScore("2024-03-05", 0);
+    expect(getDailyScore("2024-03-05")).toBe(0);
+    saveDailyScore("2024-03-05", 140);
+    saveDailyScore("2024-03-05", 90);
+    expect(getDailyScore("2024-03-05")).toBe(140);
+    expect(getDailyScore("2024-03-06")).toBeNull();
+  });
+});
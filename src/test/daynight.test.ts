@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { createGame, step, dispatch, isNight, TICK_MS } from "@/lib/game/engine";
+import { DAY_LENGTH, NIGHT_LENGTH, NIGHT_SCORE_MULTIPLIER, isNightAt, untilDaybreakOrDusk } from "@/lib/game/daynight";
+
+const SEED = 42;
+
+describe("day and night", () => {
+  it("alternates on a timer, starting with day", () => {
+    expect(isNightAt(0)).toBe(false);
+    expect(isNightAt(DAY_LENGTH)).toBe(true);
+    expect(isNightAt(DAY_LENGTH + NIGHT_LENGTH)).toBe(false);
+    expect(untilDaybreakOrDusk(DAY_LENGTH - 1000)).toBe(1000);
+    expect(untilDaybreakOrDusk(DAY_LENGTH + 500)).toBe(NIGHT_LENGTH - 500);
+  });
+
+  it("announces nightfall and pays more at night", () => {
+    let game = createGame({ dayNight: true }, SEED);
+    game = step({ ...game, time: DAY_LENGTH - TICK_MS }, TICK_MS);
+    expect(isNight(game)).toBe(true);
+    expect(game.events).toContainEqual({ type: "nightFell" });
+
+    const worm = { id: 0, type: "worm" as const, row: 0, col: 0, createdAt: game.time, hp: 1, movedAt: game.time, from: null, path: [] };
+    game = dispatch({ ...game, worms: [worm], score: 0 }, { type: "squash", wormId: 0 });
+    expect(game.score).toBe(10 * NIGHT_SCORE_MULTIPLIER);
+  });
+
+  it("stays day unless the config turns it on", () => {
+    expect(isNight({ ...createGame({}, SEED), time: DAY_LENGTH })).toBe(false);
+  });
+});
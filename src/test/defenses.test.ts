@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { createGame, step, dispatch, EngineState } from "@/lib/game/engine";
+import { parseLayout } from "@/lib/game/layouts";
+import { DEFENSES, DefenseType } from "@/lib/game/defenses";
+import { spawnOne } from "@/test/helpers";
+
+const SEED = 42;
+const ONE = parseLayout("one", "One", ["#"]);
+
+const place = (state: EngineState, defense: DefenseType, row = 0, col = 0) =>
+  dispatch({ ...state, score: state.score + DEFENSES[defense].cost }, { type: "placeDefense", defense, row, col });
+
+describe("defenses", () => {
+  it("costs points and only goes on open living corn", () => {
+    let game = place(createGame({ layout: ONE }, SEED), "fence");
+    expect(game.score).toBe(0);
+    expect(game.defenses["0-0"]).toEqual({ type: "fence", durability: 3 });
+
+    game = place(game, "trap");
+    expect(game.defenses["0-0"].type).toBe("fence");
+    expect(dispatch(game, { type: "placeDefense", defense: "trap", row: 0, col: 0 }).events).toHaveLength(0);
+  });
+
+  it("fences absorb bites until they break", () => {
+    let game = spawnOne(place(createGame({ layout: ONE }, SEED), "fence"));
+    game = step(game, game.config.wormLifetime + 1);
+    expect(game.lives).toBe(game.config.startingLives);
+    expect(game.cornHealth["0-0"]).toBe(game.config.cornMaxHealth);
+    expect(game.defenses["0-0"].durability).toBe(2);
+  });
+
+  it("leaves the fence alone while the shield is up", () => {
+    let game = spawnOne(place(createGame({ layout: ONE }, SEED), "fence"));
+    game = dispatch({ ...game, powerUps: [{ id: 0, type: "shield", expiresAt: null }] }, { type: "usePowerUp", powerUpId: 0 });
+    game = step(game, game.config.wormLifetime + 1);
+    expect(game.defenses["0-0"].durability).toBe(3);
+  });
+
+  it("traps squash the first worm and are used up", () => {
+    const game = spawnOne(place(createGame({ layout: ONE }, SEED), "trap"));
+    expect(game.worms).toHaveLength(0);
+    expect(game.squashed).toBe(1);
+    expect(game.defenses["0-0"]).toBeUndefined();
+    expect(game.events).toContainEqual(expect.objectContaining({ type: "defenseUsed", broken: true }));
+  });
+
+  it("scarecrows wear down as worms spawn on their row, and fertilizer mends them", () => {
+    let game = spawnOne(place(createGame({ layout: ONE }, SEED), "scarecrow"));
+    expect(game.defenses["0-0"].durability).toBe(DEFENSES.scarecrow.durability - 1);
+
+    game = dispatch({ ...game, powerUps: [{ id: 0, type: "fertilizer", expiresAt: null }] }, { type: "usePowerUp", powerUpId: 0 });
+    expect(game.defenses["0-0"].durability).toBe(DEFENSES.scarecrow.durability);
+  });
+});
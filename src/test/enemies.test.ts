@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { createGame, step, dispatch, EngineState, Worm } from "@/lib/game/engine";
+import { ENEMY_STATS, EnemyType } from "@/lib/game/enemies";
+
+const SEED = 3;
+
+const withEnemy = (game: EngineState, type: EnemyType, row = 1, col = 2): EngineState => {
+  const worm: Worm = {
+    id: 99, type, row, col, createdAt: game.time, hp: ENEMY_STATS[type].hp, movedAt: game.time, from: null, path: [],
+  };
+  return { ...game, worms: [worm] };
+};
+
+describe("enemy types", () => {
+  it("takes several taps to squash an armored beetle", () => {
+    let game = withEnemy(createGame({}, SEED), "beetle");
+    game = dispatch(game, { type: "squash", wormId: 99 });
+    game = dispatch(game, { type: "squash", wormId: 99 });
+    expect(game.events.map(e => e.type)).toEqual(["hit"]);
+    expect(game.worms[0].hp).toBe(1);
+    game = dispatch(game, { type: "squash", wormId: 99 });
+    expect(game.worms).toHaveLength(0);
+    expect(game.score).toBe(ENEMY_STATS.beetle.points);
+  });
+
+  it("splits a splitting worm into two hatchlings", () => {
+    let game = withEnemy(createGame({}, SEED), "splitter");
+    game = dispatch(game, { type: "squash", wormId: 99 });
+    expect(game.worms.map(w => w.type)).toEqual(["hatchling", "hatchling"]);
+  });
+
+  it("lets a golden worm flee without eating corn", () => {
+    let game = withEnemy(createGame({}, SEED), "golden");
+    game = step(game, game.config.wormLifetime * ENEMY_STATS.golden.lifetimeScale + 1);
+    expect(game.events.map(e => e.type)).toContain("fled");
+    expect(game.lives).toBe(game.config.startingLives);
+    expect(game.cornHealth["1-2"]).toBe(game.config.cornMaxHealth);
+  });
+
+  it("crawls a worm along its path, nibbling the corn it reaches", () => {
+    let game = withEnemy(createGame({}, SEED), "worm");
+    game = { ...game, worms: [{ ...game.worms[0], path: [[1, 3], [0, 3]] }] };
+    game = step(game, ENEMY_STATS.worm.moveInterval);
+    expect(game.worms[0]).toMatchObject({ row: 1, col: 3, from: [1, 2], path: [[0, 3]] });
+    expect(game.cornHealth["1-3"]).toBe(game.config.cornMaxHealth - 1);
+    expect(game.events).toContainEqual(expect.objectContaining({ type: "crawl" }));
+  });
+
+  it("hops a burrower to a neighboring cell", () => {
+    let game = withEnemy(createGame({}, SEED), "burrower");
+    game = step(game, ENEMY_STATS.burrower.moveInterval);
+    const [worm] = game.worms;
+    expect(Math.abs(worm.row - 1) + Math.abs(worm.col - 2)).toBe(1);
+  });
+});
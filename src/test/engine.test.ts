@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { createGame, step, dispatch, slotPowerUp, TICK_MS } from "@/lib/game/engine";
+import { parseLayout } from "@/lib/game/layouts";
+import { spawnOne } from "@/test/helpers";
+
+const SEED = 42;
+
+describe("engine", () => {
+  it("spawns a worm once the first wave starts", () => {
+    const game = spawnOne(createGame({}, SEED));
+    expect(game.worms).toHaveLength(1);
+    expect(game.worms[0].createdAt).toBe(game.time);
+    expect(game.events).toContainEqual(expect.objectContaining({ type: "wormSpawned" }));
+  });
+
+  it("scores squashes with a growing combo", () => {
+    let game = spawnOne(spawnOne(createGame({}, SEED)));
+    game = dispatch(game, { type: "squash", wormId: game.worms[0].id });
+    game = dispatch(game, { type: "squash", wormId: game.worms[0].id });
+    expect(game.combo).toBe(2);
+    expect(game.score).toBe(30);
+    expect(game.worms).toHaveLength(0);
+  });
+
+  it("damages corn and lives when a worm outlives its lifetime", () => {
+    let game = spawnOne(createGame({ layout: parseLayout("one", "One", ["#"]), startingLives: 1 }, SEED));
+    game = step(game, game.config.wormLifetime + 1);
+    expect(game.cornHealth["0-0"]).toBe(2);
+    expect(game.lives).toBe(0);
+    expect(game.gameOver).toBe(true);
+    expect(game.events.map(e => e.type)).toEqual(expect.arrayContaining(["damage", "gameOver"]));
+  });
+
+  it("only plants and spawns on corn cells of the layout", () => {
+    let game = createGame({ layout: parseLayout("holes", "Holes", ["#.", ".#"]) }, SEED);
+    expect(Object.keys(game.cornHealth)).toEqual(["0-0", "1-1"]);
+    for (let i = 0; i < 10; i++) game = spawnOne(game);
+    game.worms.forEach(w => expect(w.row).toBe(w.col));
+  });
+
+  it("uses per-cell starting health and spawn weights", () => {
+    const layout = parseLayout("weights", "Weights", ["##"]);
+    layout.cells[0][0] = { kind: "corn", health: 1, spawnWeight: 0 };
+    let game = createGame({ layout }, SEED);
+    expect(game.cornHealth).toEqual({ "0-0": 1, "0-1": 3 });
+    for (let i = 0; i < 10; i++) {
+      game = spawnOne(game);
+      game.events.forEach(e => e.type === "wormSpawned" && expect(e.worm.col).toBe(1));
+    }
+  });
+
+  it("ends the run when the objective is met", () => {
+    let game = createGame({ objective: { type: "squash", count: 1 } }, SEED);
+    game = spawnOne(game);
+    game = dispatch(game, { type: "squash", wormId: game.worms[0].id });
+    expect(game.gameOver).toBe(true);
+    expect(game.outcome).toBe("won");
+    expect(game.events).toContainEqual({ type: "gameOver", outcome: "won" });
+  });
+
+  it("loses a protect objective when too much corn dies", () => {
+    const layout = parseLayout("one", "One", ["#"]);
+    layout.cells[0][0] = { kind: "corn", health: 1 };
+    let game = spawnOne(createGame({ layout, objective: { type: "protect", corn: 1, seconds: 60 } }, SEED));
+    game = step(game, game.config.wormLifetime + 1);
+    expect(game.outcome).toBe("lost");
+  });
+
+  it("blocks damage while the shield is up", () => {
+    let game = spawnOne(createGame({}, SEED));
+    game = { ...game, powerUps: [{ id: 0, type: "shield", expiresAt: game.time + 1000 }] };
+    game = dispatch(game, { type: "usePowerUp", powerUpId: 0 });
+    game = step(game, game.config.wormLifetime + 1);
+    expect(game.events.map(e => e.type)).not.toContain("damage");
+    expect(game.lives).toBe(game.config.startingLives);
+  });
+
+  it("expires uncollected power-ups unless they are banked", () => {
+    const run = (powerUpRule: "expires" | "bank") => {
+      let game = createGame({ powerUpRule }, SEED);
+      for (let i = 0; i < 250; i++) game = step({ ...game, worms: [] }, TICK_MS);
+      return game.powerUps.length;
+    };
+    expect(run("expires")).toBe(1);
+    expect(run("bank")).toBe(2);
+  });
+
+  it("uses the power-up closest to expiring from a slot", () => {
+    const game = {
+      ...createGame({}, SEED),
+      powerUps: [
+        { id: 0, type: "shield" as const, expiresAt: 5000 },
+        { id: 1, type: "shield" as const, expiresAt: 3000 },
+        { id: 2, type: "pesticide" as const, expiresAt: 1000 },
+      ],
+    };
+    expect(slotPowerUp(game, "shield")?.id).toBe(1);
+    expect(slotPowerUp(game, "fertilizer")).toBeUndefined();
+  });
+
+  it("replays identically from the same seed", () => {
+    const run = (seed: number) => {
+      let game = createGame({}, seed);
+      for (let i = 0; i < 300; i++) game = step(game, 100);
+      return game;
+    };
+    expect(run(SEED)).toEqual(run(SEED));
+    expect(run(SEED).worms).not.toEqual(run(SEED + 1).worms);
+  });
+});
@@ -0,0 +1,8 @@
+import { step, TICK_MS, EngineState } from "@/lib/game/engine";
+
+// Steps until the wave director spawns the next worm
+export const spawnOne = (state: EngineState) => {
+  let game = state;
+  while (game.nextWormId === state.nextWormId && !game.gameOver) game = step(game, TICK_MS);
+  return game;
+};
@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { parseLayout, validateLayout, CLASSIC_LAYOUT } from "@/lib/game/layouts";
+
+describe("layouts", () => {
+  it("accepts a well-formed layout", () => {
+    const layout = parseLayout("holes", "Holes", ["#.", "o#"]);
+    expect(validateLayout(JSON.parse(JSON.stringify(layout)))).toEqual(layout);
+    expect(validateLayout(CLASSIC_LAYOUT)).toBe(CLASSIC_LAYOUT);
+  });
+
+  it("rejects malformed layouts", () => {
+    expect(() => validateLayout(null)).toThrow();
+    expect(() => validateLayout({ id: "empty", name: "Empty", cells: [] })).toThrow();
+    expect(() => validateLayout({ id: "odd", name: "Odd", cells: [[{ kind: "lava" }]] })).toThrow(/unknown kind/);
+    expect(() => validateLayout({ id: "sick", name: "Sick", cells: [[{ kind: "corn", health: -1 }]] })).toThrow(/health/);
+  });
+
+  it("rejects rows of different lengths", () => {
+    const corn = { kind: "corn" };
+    expect(() => validateLayout({ id: "ragged", name: "Ragged", cells: [[corn, corn], [corn]] })).toThrow(/same number of cells/);
+  });
+});
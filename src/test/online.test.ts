@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import WebSocket from "ws";
+import { startVersusServer, VersusServer } from "../../server/versus-server";
+import {
+  onlineConfig, onlineResult, parseClientMessage, parseServerMessage, MAX_ATTACK_STEP, ClientMessage, OnlineField, ServerMessage,
+} from "@/lib/game/online";
+
+const FIELD: OnlineField = { preset: "hard", layout: "classic", waves: "standard", weather: true, dayNight: false };
+
+/** A test client that queues up what the server sends until it's asked for. */
+async function connect(port: number) {
+  const socket = new WebSocket(`ws://localhost:${port}`);
+  const inbox: ServerMessage[] = [];
+  const waiters: (() => void)[] = [];
+  socket.on("message", data => {
+    inbox.push(parseServerMessage(data.toString()));
+    waiters.splice(0).forEach(wake => wake());
+  });
+  await new Promise(resolve => socket.once("open", resolve));
+
+  const next = async <T extends ServerMessage["type"]>(type: T): Promise<Extract<ServerMessage, { type: T }>> => {
+    for (;;) {
+      const index = inbox.findIndex(m => m.type === type);
+      if (index >= 0) return inbox.splice(index, 1)[0] as Extract<ServerMessage, { type: T }>;
+      await new Promise<void>(wake => waiters.push(wake));
+    }
+  };
+  const send = (message: ClientMessage) => socket.send(JSON.stringify(message));
+  const sendRaw = (message: unknown) => socket.send(JSON.stringify(message));
+  return { socket, next, send, sendRaw };
+}
+
+describe("online versus", () => {
+  let server: VersusServer;
+
+  beforeEach(async () => {
+    server = await startVersusServer({ port: 0, grace: 200 });
+  });
+
+  afterEach(() => server.close());
+
+  async function match() {
+    const alice = await connect(server.port);
+    alice.send({ type: "join", name: "Alice", field: FIELD });
+    const { token } = await alice.next("queued");
+    const bob = await connect(server.port);
+    bob.send({ type: "join", name: "Bob", field: { ...FIELD, preset: "easy" } });
+    return { alice, bob, token };
+  }
+
+  it("ignores messages it doesn't know", () => {
+    expect(parseClientMessage("{\"type\":\"cheat\"}")).toBeNull();
+    expect(parseClientMessage("not json")).toBeNull();
+    expect(parseClientMessage("{\"type\":\"toString\"}")).toBeNull();
+    expect(parseClientMessage("{\"type\":\"ping\",\"at\":1}")).toEqual({ type: "ping", at: 1 });
+  });
+
+  it("turns away messages with missing or mistyped fields", () => {
+    const client = (message: unknown) => parseClientMessage(JSON.stringify(message));
+    expect(client({ type: "attack", total: 1.5 })).toBeNull();
+    expect(client({ type: "attack", total: "9" })).toBeNull();
+    expect(client({ type: "attack", total: -1 })).toBeNull();
+    expect(client({ type: "state", score: 10 })).toBeNull();
+    expect(client({ type: "state", score: 10, lives: null })).toBeNull();
+    expect(client({ type: "join", name: "Eve", config: { startingLives: 99 } })).toBeNull();
+    expect(client({ type: "join", name: "Eve", field: { ...FIELD, layout: "moon" } })).toBeNull();
+    expect(client({ type: "join", name: "", field: FIELD })).toBeNull();
+    expect(client({ type: "join", name: "Eve", field: FIELD })).toEqual({ type: "join", name: "Eve", field: FIELD });
+
+    const server = (message: unknown) => parseServerMessage(JSON.stringify(message));
+    expect(server({ type: "matched", opponent: "Eve", seed: 1, field: { ...FIELD, weather: "yes" } })).toBeNull();
+    expect(parseServerMessage("{\"type\":\"incoming\",\"total\":1e400}")).toBeNull();
+  });
+
+  it("builds the config from the field's ids", () => {
+    const config = onlineConfig(FIELD);
+    expect(config.startingLives).toBe(3);
+    expect(config.layout.id).toBe("classic");
+    expect(config.waves.id).toBe("standard");
+    expect(config.weather).toBe(true);
+  });
+
+  it("pairs players on the same seed and the first player's field", async () => {
+    const { alice, bob } = await match();
+    const [a, b] = await Promise.all([alice.next("matched"), bob.next("matched")]);
+    expect(a.opponent).toBe("Bob");
+    expect(b.opponent).toBe("Alice");
+    expect(a.seed).toBe(b.seed);
+    expect(b.field).toEqual(FIELD);
+  });
+
+  it("relays attacks and scores to the opponent", async () => {
+    const { alice, bob } = await match();
+    await bob.next("matched");
+    alice.send({ type: "attack", total: 2 });
+    alice.send({ type: "state", score: 120, lives: 3 });
+    expect(await bob.next("incoming")).toEqual({ type: "incoming", total: 2 });
+    expect(await bob.next("opponent")).toEqual({ type: "opponent", score: 120, lives: 3 });
+  });
+
+  it("rejects malformed join, attack and state messages", async () => {
+    const eve = await connect(server.port);
+    eve.sendRaw({ type: "join", name: "Eve", config: { startingLives: 99 } });
+    expect((await eve.next("error")).message).toMatch(/understood/);
+
+    const { alice, bob } = await match();
+    await bob.next("matched");
+    alice.sendRaw({ type: "attack", total: 1.5 });
+    alice.sendRaw({ type: "state", score: "lots", lives: 3 });
+    await alice.next("error");
+    await alice.next("error");
+    alice.send({ type: "attack", total: 1 });
+    // Only the well-formed attack gets through
+    expect(await bob.next("incoming")).toEqual({ type: "incoming", total: 1 });
+  });
+
+  it("caps how far one attack message can go", async () => {
+    const { alice, bob } = await match();
+    await bob.next("matched");
+    alice.send({ type: "attack", total: 1e9 });
+    expect(await bob.next("incoming")).toEqual({ type: "incoming", total: MAX_ATTACK_STEP });
+    alice.send({ type: "attack", total: 1e9 });
+    expect(await bob.next("incoming")).toEqual({ type: "incoming", total: 2 * MAX_ATTACK_STEP });
+  });
+
+  it("answers pings", async () => {
+    const { alice } = await match();
+    alice.send({ type: "ping", at: 1234 });
+    expect(await alice.next("pong")).toEqual({ type: "pong", at: 1234 });
+  });
+
+  it("declares the other player the winner when a field falls", async () => {
+    const { alice, bob } = await match();
+    await bob.next("matched");
+    bob.send({ type: "attack", total: 3 });
+    alice.send({ type: "lost", score: 80 });
+    const [a, b] = await Promise.all([alice.next("result"), bob.next("result")]);
+    expect(onlineResult(b)).toEqual({
+      sides: [{ name: "Bob", score: 0, sent: 3 }, { name: "Alice", score: 80, sent: 0 }],
+      winner: 0,
+      forfeit: false,
+    });
+    expect(onlineResult(a).winner).toBe(1);
+  });
+
+  it("lets a dropped player resume the match", async () => {
+    const { alice, bob, token } = await match();
+    await alice.next("matched");
+    bob.send({ type: "attack", total: 1 });
+    await alice.next("incoming");
+    alice.socket.close();
+    await bob.next("opponentAway");
+
+    const back = await connect(server.port);
+    back.send({ type: "resume", token });
+    await back.next("resumed");
+    expect(await back.next("incoming")).toEqual({ type: "incoming", total: 1 });
+    await bob.next("opponentBack");
+  });
+
+  it("awards the match to the player left when the opponent doesn't come back", async () => {
+    const { alice, bob } = await match();
+    await bob.next("matched");
+    alice.socket.close();
+    const result = await bob.next("result");
+    expect(result.won).toBe(true);
+    expect(result.forfeit).toBe(true);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, act } from "@testing-library/react";
+import GameBoard from "@/components/game/GameBoard";
+import type { EngineState } from "@/lib/game/engine";
+
+// The field only shows what the board hands it; keep the last state it got
+let shown: EngineState;
+vi.mock("@/components/game/GameField", () => ({
+  default: ({ game }: { game: EngineState }) => {
+    shown = game;
+    return null;
+  },
+}));
+
+// jsdom has no Web Audio
+vi.mock("@/lib/sounds", async importOriginal => {
+  const sounds = await importOriginal<Record<string, unknown>>();
+  return Object.fromEntries(Object.keys(sounds).map(name => [name, () => {}]));
+});
+
+const board = (paused: boolean) => (
+  <GameBoard
+    onScoreChange={() => {}}
+    onLivesChange={() => {}}
+    onGameOver={() => {}}
+    isPlaying
+    paused={paused}
+    seed={42}
+    config={{ powerUpSpawnInterval: 1000 }}
+  />
+);
+
+const advance = (ms: number) => act(() => vi.advanceTimersByTime(ms));
+
+describe("pausing", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "requestAnimationFrame", "cancelAnimationFrame", "performance"] });
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it("freezes the engine clock and every timer on it until resumed", () => {
+    const { rerender } = render(board(false));
+    advance(2500);
+    expect(shown.worms.length).toBeGreaterThan(0);
+    expect(shown.powerUps.length).toBeGreaterThan(0);
+
+    rerender(board(true));
+    const frozen = shown;
+    advance(5000);
+    expect(shown.time).toBe(frozen.time);
+    expect(shown.worms.map(w => w.createdAt)).toEqual(frozen.worms.map(w => w.createdAt));
+    expect(shown.powerUps.map(p => p.expiresAt)).toEqual(frozen.powerUps.map(p => p.expiresAt));
+
+    rerender(board(false));
+    advance(1000);
+    expect(shown.time).toBeGreaterThan(frozen.time);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { createGame, step, dispatch, TICK_MS, EngineState } from "@/lib/game/engine";
+import { parseLayout } from "@/lib/game/layouts";
+import { POWERUPS, PowerUpType } from "@/lib/game/powerups";
+import { spawnOne } from "@/test/helpers";
+
+const SEED = 42;
+
+const use = (state: EngineState, type: PowerUpType) =>
+  dispatch({ ...state, powerUps: [{ id: 99, type, expiresAt: null }] }, { type: "usePowerUp", powerUpId: 99 });
+
+describe("power-ups", () => {
+  it("stops worm timers while frozen", () => {
+    let game = use(spawnOne(createGame({}, SEED)), "freeze");
+    const worm = game.worms[0];
+    game = step(game, TICK_MS * 10);
+    expect(game.worms[0].createdAt).toBe(worm.createdAt + TICK_MS * 10);
+    expect(game.effects).toHaveLength(1);
+  });
+
+  it("runs worm timers at half speed in slow-mo", () => {
+    let game = use(spawnOne(createGame({}, SEED)), "slowmo");
+    const worm = game.worms[0];
+    game = step(game, TICK_MS * 10);
+    expect(game.worms[0].createdAt).toBe(worm.createdAt + TICK_MS * 5);
+  });
+
+  it("doubles points until it wears off", () => {
+    let game = use(spawnOne(createGame({}, SEED)), "double");
+    const [worm] = game.worms;
+    game = dispatch(game, { type: "squash", wormId: worm.id });
+    expect(game.score).toBe(20);
+
+    game = step(game, POWERUPS.double.duration(game.config));
+    expect(game.events).toContainEqual(expect.objectContaining({ type: "effectEnded" }));
+    const { score } = game;
+    const fresh = { ...game, combo: 0, worms: [{ ...worm, createdAt: game.time, movedAt: game.time }] };
+    game = dispatch(fresh, { type: "squash", wormId: worm.id });
+    expect(game.score - score).toBe(10);
+  });
+
+  it("keeps worms off the cell a scarecrow guards", () => {
+    let game = spawnOne(createGame({ layout: parseLayout("one", "One", ["#"]) }, SEED));
+    game = use(game, "scarecrow");
+    expect(game.effects[0].cell).toEqual([0, 0]);
+    expect(game.worms).toHaveLength(0);
+    expect(game.events).toContainEqual(expect.objectContaining({ type: "fled" }));
+
+    game = step(game, 3000);
+    expect(game.worms).toHaveLength(0);
+    expect(game.lives).toBe(game.config.startingLives);
+  });
+});
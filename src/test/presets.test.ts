@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createGame, dispatch, step, EngineState, GameConfig, TICK_MS, Worm } from "@/lib/game/engine";
+import { getPreset, loadHighScores, saveHighScore } from "@/lib/game/presets";
+
+const withWorm = (game: EngineState): EngineState => {
+  const worm: Worm = { id: 1, type: "worm", row: 0, col: 0, createdAt: 0, hp: 1, movedAt: 0, from: null, path: [] };
+  return { ...game, worms: [worm] };
+};
+
+// Worms spawned in the first 15s, with lives to spare so nobody falls early
+const spawnedIn15s = (config: Partial<GameConfig>) => {
+  let game = createGame({ ...config, startingLives: 99 }, 1);
+  for (let t = 0; t < 15000; t += TICK_MS) game = step(game, TICK_MS);
+  return game.nextWormId;
+};
+
+describe("difficulty presets", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("applies the preset's lives and score multiplier", () => {
+    let game = createGame(getPreset("hard").config, 1);
+    expect(game.lives).toBe(3);
+    game = dispatch(withWorm(game), { type: "squash", wormId: 1 });
+    expect(game.score).toBe(15);
+  });
+
+  it("spawns worms faster on harder presets", () => {
+    const [easy, normal, hard, nightmare] = ["easy", "normal", "hard", "nightmare"].map(id => spawnedIn15s(getPreset(id).config));
+    expect(easy).toBeLessThan(normal);
+    expect(hard).toBeGreaterThan(normal);
+    expect(nightmare).toBeGreaterThan(hard);
+  });
+
+  it("keeps a best score per preset", () => {
+    saveHighScore("hard", 120);
+    saveHighScore("hard", 80);
+    saveHighScore("easy", 40);
+    expect(loadHighScores()).toEqual({ hard: 120, easy: 40 });
+  });
+
+  it("counts a score from before presets as Normal", () => {
+    localStorage.setItem("corn-defender-high", "250");
+    expect(loadHighScores().normal).toBe(250);
+    expect(saveHighScore("normal", 100).normal).toBe(250);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { nextRandom, pick, pickWeighted, hashSeed, parseSeed } from "@/lib/game/random";
+
+// The first `n` rolls from a seed
+const rolls = (seed: number, n: number) => {
+  const out: number[] = [];
+  let state = seed;
+  for (let i = 0; i < n; i++) {
+    const [roll, next] = nextRandom(state);
+    out.push(roll);
+    state = next;
+  }
+  return out;
+};
+
+describe("seeded random", () => {
+  it("rolls the same sequence from the same seed", () => {
+    expect(rolls(42, 20)).toEqual(rolls(42, 20));
+    expect(rolls(42, 20)).not.toEqual(rolls(43, 20));
+    rolls(7, 200).forEach(roll => {
+      expect(roll).toBeGreaterThanOrEqual(0);
+      expect(roll).toBeLessThan(1);
+    });
+  });
+
+  it("picks from the list", () => {
+    const items = ["a", "b", "c"];
+    let state = 1;
+    for (let i = 0; i < 50; i++) {
+      const [item, next] = pick(items, state);
+      expect(items).toContain(item);
+      state = next;
+    }
+  });
+
+  it("keeps weighted picks in range and never picks a zero weight", () => {
+    const items = ["never", "rare", "common"];
+    const weights = [0, 1, 9];
+    const counts: Record<string, number> = { never: 0, rare: 0, common: 0 };
+    let state = 3;
+    for (let i = 0; i < 500; i++) {
+      const [item, next] = pickWeighted(items, weights, state);
+      counts[item]++;
+      state = next;
+    }
+    expect(counts.never).toBe(0);
+    expect(counts.common).toBeGreaterThan(counts.rare);
+    expect(counts.rare + counts.common).toBe(500);
+  });
+
+  it("hashes text to a stable uint32", () => {
+    expect(hashSeed("corn")).toBe(hashSeed("corn"));
+    expect(hashSeed("corn")).not.toBe(hashSeed("Corn"));
+    // FNV-1a's offset basis for empty text
+    expect(hashSeed("")).toBe(0x811c9dc5);
+    [hashSeed("a"), hashSeed("a much longer seed with spaces")].forEach(hash => {
+      expect(Number.isInteger(hash)).toBe(true);
+      expect(hash).toBeGreaterThanOrEqual(0);
+      expect(hash).toBeLessThanOrEqual(0xffffffff);
+    });
+  });
+
+  it("parses typed seeds and rejects bad ones", () => {
+    expect(parseSeed(" 1234 ")).toBe(1234);
+    expect(parseSeed("4294967295")).toBe(4294967295);
+    expect(parseSeed("corn field")).toBe(hashSeed("corn field"));
+    expect(parseSeed("")).toBeNull();
+    expect(parseSeed("   ")).toBeNull();
+    expect(parseSeed("4294967296")).toBeNull();
+    expect(parseSeed("99999999999999999999")).toBeNull();
+  });
+});
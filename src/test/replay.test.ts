@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { createGame, step, dispatch, TICK_MS, GameAction } from "@/lib/game/engine";
+import { startRecording, recordAction, recordTick, replayTo, saveReplay, loadReplay } from "@/lib/game/replay";
+
+const SEED = 7;
+
+// Plays like a live GameBoard: fixed ticks, squashing every other worm it sees
+function recordRun() {
+  const log = startRecording(SEED);
+  let game = createGame({}, SEED);
+  let squashed = 0;
+  while (!game.gameOver && game.time < 60000) {
+    game = step(game, TICK_MS);
+    recordTick(log, game);
+    const target = game.worms.find(w => w.id % 2 === 0);
+    if (target) {
+      const action: GameAction = { type: "squash", wormId: target.id };
+      recordAction(log, game, action);
+      game = dispatch(game, action);
+      recordTick(log, game);
+      squashed++;
+    }
+  }
+  return { log, game, squashed };
+}
+
+describe("replay", () => {
+  it("reproduces a recorded run from its log", () => {
+    const { log, game, squashed } = recordRun();
+    expect(squashed).toBeGreaterThan(0);
+    expect(log.levels.length).toBeGreaterThan(1);
+
+    const replayed = replayTo(log, log.duration);
+    expect(replayed.score).toBe(game.score);
+    expect(replayed.lives).toBe(game.lives);
+    expect(replayed.worms).toEqual(game.worms);
+  });
+
+  it("round-trips through storage", () => {
+    const { log } = recordRun();
+    saveReplay(log);
+    expect(loadReplay(log.id)).toEqual(log);
+    expect(loadReplay("missing")).toBeNull();
+  });
+});
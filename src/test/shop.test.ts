@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createGame, DEFAULT_CONFIG } from "@/lib/game/engine";
+import { buyUpgrade, coinsForRun, earnCoins, loadWallet, upgradeConfig } from "@/lib/game/shop";
+
+describe("shop", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("pays out for score, squashes and surviving corn", () => {
+    const game = { ...createGame({}, 1), score: 120, squashed: 7 };
+    expect(coinsForRun(game)).toBe(12 + 7 + 15 * 2);
+  });
+
+  it("buys upgrades with coins until they max out", () => {
+    earnCoins(500);
+    buyUpgrade("fertilizer");
+    expect(loadWallet()).toEqual({ coins: 450, upgrades: { fertilizer: 1 } });
+    buyUpgrade("fertilizer");
+    expect(() => buyUpgrade("fertilizer")).toThrow("maxed");
+    expect(loadWallet().coins).toBe(350);
+  });
+
+  it("refuses upgrades the player can't afford", () => {
+    earnCoins(10);
+    expect(() => buyUpgrade("life")).toThrow("coins");
+    expect(loadWallet()).toEqual({ coins: 10, upgrades: {} });
+  });
+
+  it("feeds bought upgrades into the next run's config", () => {
+    earnCoins(500);
+    buyUpgrade("life");
+    buyUpgrade("slots");
+    const config = upgradeConfig({ startingLives: 3 });
+    expect(config.startingLives).toBe(4);
+    expect(config.maxPowerUps).toBe(DEFAULT_CONFIG.maxPowerUps + 1);
+    expect(createGame(config, 1).lives).toBe(4);
+  });
+});
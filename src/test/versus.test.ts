@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { createGame, dispatch, GameEvent } from "@/lib/game/engine";
+import { attackForCombo, attackWorms } from "@/lib/game/versus";
+
+const SEED = 42;
+
+describe("versus", () => {
+  it("sends worms on every third hit of a combo", () => {
+    expect([1, 2, 3, 4, 5, 6, 9].map(attackForCombo)).toEqual([0, 0, 1, 0, 0, 2, 3]);
+  });
+
+  it("adds up the worms sent by a batch of events", () => {
+    const squash = (combo: number) => ({ type: "squash", combo }) as GameEvent;
+    expect(attackWorms([squash(2), squash(3), { type: "hop" } as GameEvent, squash(6)])).toBe(3);
+  });
+
+  it("lands received worms on living corn", () => {
+    const game = dispatch(createGame({}, SEED), { type: "receiveWorms", count: 3 });
+    expect(game.worms).toHaveLength(3);
+    game.worms.forEach(w => expect(game.cornHealth[`${w.row}-${w.col}`]).toBeGreaterThan(0));
+    expect(game.events).toContainEqual(expect.objectContaining({ type: "attacked", worms: game.worms }));
+  });
+});
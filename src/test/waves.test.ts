@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { createGame, step, TICK_MS, EngineState } from "@/lib/game/engine";
+import { FIRST_WAVE_DELAY, validateWaveSet, waveAt, WaveSet, WAVE_SETS } from "@/lib/game/waves";
+
+const SEED = 11;
+
+const WAVES: WaveSet = {
+  id: "test",
+  name: "Test",
+  waves: [
+    { enemies: { beetle: 1 }, count: 2, interval: 500, burst: 2, rest: 1000, target: "edges" },
+    { enemies: { fast: 1 }, count: 1, interval: 500, rest: 0 },
+  ],
+  endless: { countStep: 2, intervalScale: 0.5, minInterval: 200 },
+};
+
+const run = (state: EngineState, ms: number) => {
+  let game = state;
+  for (let t = 0; t < ms; t += TICK_MS) game = step(game, TICK_MS);
+  return game;
+};
+
+describe("wave director", () => {
+  it("announces a wave, then spawns its mix in bursts", () => {
+    let game = run(createGame({ waves: WAVES, spawnIntervalFloor: 0 }, SEED), FIRST_WAVE_DELAY - TICK_MS);
+    expect(game.resting).toBe(true);
+    game = step(game, TICK_MS);
+    expect(game.events.map(e => e.type)).toEqual(["waveStarted", "wormSpawned", "wormSpawned"]);
+    expect(game.worms.map(w => w.type)).toEqual(["beetle", "beetle"]);
+    game.worms.forEach(w => expect(w.row === 0 || w.row === 2 || w.col === 0 || w.col === 4).toBe(true));
+  });
+
+  it("rests after the last spawn before starting the next wave", () => {
+    let game = run(createGame({ waves: WAVES, spawnIntervalFloor: 0 }, SEED), FIRST_WAVE_DELAY + 500);
+    expect(game.resting).toBe(true);
+    expect(game.wave).toBe(2);
+    game = run(game, 500 + 1000 - TICK_MS);
+    expect(game.resting).toBe(true);
+    game = step(game, TICK_MS);
+    expect(game.events).toContainEqual({ type: "waveStarted", wave: 2 });
+    expect(game.worms.at(-1).type).toBe("fast");
+  });
+
+  it("keeps growing the last wave once the list runs out", () => {
+    expect(waveAt(WAVES, 2).count).toBe(1);
+    expect(waveAt(WAVES, 4)).toMatchObject({ count: 5, interval: 200 });
+  });
+
+  it("rejects malformed wave sets", () => {
+    expect(() => validateWaveSet({ ...WAVES, waves: [] })).toThrow();
+    expect(() => validateWaveSet({ ...WAVES, waves: [{ ...WAVES.waves[0], enemies: { dragon: 1 } }] })).toThrow();
+    expect(() => validateWaveSet({ ...WAVES, waves: [{ ...WAVES.waves[0], target: "nearest" }] })).toThrow();
+    expect(validateWaveSet(WAVES)).toBe(WAVES);
+  });
+
+  it("loads every wave set in the folder, standard first", () => {
+    expect(WAVE_SETS.map(set => set.id)).toEqual(["standard", "swarm"]);
+  });
+});
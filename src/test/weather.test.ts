@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { createGame, step, dispatch, TICK_MS, EngineState } from "@/lib/game/engine";
+import { parseLayout } from "@/lib/game/layouts";
+import { WEATHER_DURATION, WeatherType } from "@/lib/game/weather";
+import { spawnOne } from "@/test/helpers";
+
+const SEED = 42;
+const PAIR = parseLayout("pair", "Pair", ["##"]);
+
+// Switches the weather on right away, acting on the next tick
+const forceWeather = (state: EngineState, current: WeatherType, wind: [number, number] = [0, 1]): EngineState => ({
+  ...state,
+  weather: { ...state.weather, current, wind, actsAt: state.time + TICK_MS },
+});
+
+describe("weather", () => {
+  it("turns into the forecast weather when a spell ends", () => {
+    let game = createGame({ weather: true }, SEED);
+    const forecast = game.weather.next;
+    game = step(game, WEATHER_DURATION);
+    expect(game.weather.current).toBe(forecast);
+    expect(game.events).toContainEqual(expect.objectContaining({ type: "weatherChanged" }));
+  });
+
+  it("stays off unless the config turns it on", () => {
+    expect(createGame({}, SEED).weather).toBeNull();
+  });
+
+  it("regrows damaged corn in the rain", () => {
+    let game = createGame({ layout: PAIR, weather: true }, SEED);
+    game = forceWeather({ ...game, cornHealth: { "0-0": 1, "0-1": 0 } }, "rain");
+    game = step(game, TICK_MS);
+    expect(game.cornHealth).toEqual({ "0-0": 2, "0-1": 0 });
+  });
+
+  it("wilts corn in a drought unless it was watered", () => {
+    let game = forceWeather(createGame({ layout: PAIR, weather: true }, SEED), "drought");
+    game = dispatch(game, { type: "water", row: 0, col: 0 });
+    game = step(game, TICK_MS);
+    expect(game.cornHealth["0-0"]).toBe(game.config.cornMaxHealth);
+    expect(game.cornHealth["0-1"]).toBe(game.config.cornMaxHealth - 1);
+  });
+
+  it("blows worms onto the next corn downwind", () => {
+    let game = spawnOne(createGame({ layout: PAIR, weather: true }, SEED));
+    const worm = game.worms[0];
+    game = step(forceWeather(game, "wind", [0, worm.col === 0 ? 1 : -1]), TICK_MS);
+    expect(game.worms[0].col).toBe(1 - worm.col);
+    expect(game.events).toContainEqual(expect.objectContaining({ type: "gust" }));
+  });
+});
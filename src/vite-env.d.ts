@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Versus server for online play; defaults to port 8787 on the page's host. */
+  readonly VITE_VERSUS_SERVER?: string;
+}